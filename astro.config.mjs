@@ -1,5 +1,63 @@
 // @ts-check
+import { readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import node from '@astrojs/node';
 import { defineConfig } from 'astro/config';
 
+// One locale per message catalog in src/data/i18n (see src/lib/i18n.ts)
+const locales = readdirSync(new URL('./src/data/i18n/', import.meta.url))
+  .filter((file) => file.endsWith('.json'))
+  .map((file) => file.replace(/\.json$/, ''));
+
+// Public or internal staff edition (see siteEdition in src/config.ts)
+const internal = process.env.SITE_EDITION === 'internal';
+
+// Serve the JSON API from a Node server instead of prerendering it (see src/lib/api.ts)
+const apiServer = process.env.API_SERVER === 'node';
+
+// Curator pages in src/staff - only routed in the internal edition
+const staffRoutes = [
+  { pattern: '/quality', entrypoint: './src/staff/quality.astro' },
+  { pattern: '/duplicates', entrypoint: './src/staff/duplicates.astro' },
+  { pattern: '/locations', entrypoint: './src/staff/locations/index.astro' },
+  { pattern: '/locations/pick-list', entrypoint: './src/staff/locations/pick-list.astro' },
+];
+
 // https://astro.build/config
-export default defineConfig({});
+export default defineConfig({
+  outDir: internal ? './dist-internal' : './dist',
+  vite: {
+    define: {
+      // Streamed sources are read from src/data at run time, so the built API server
+      // has to find it wherever it is started from (see streamSource in src/lib/ingest.ts)
+      'import.meta.env.DATA_DIR': JSON.stringify(fileURLToPath(new URL('./src/data/', import.meta.url))),
+    },
+  },
+  adapter: apiServer ? node({ mode: 'standalone' }) : undefined,
+  i18n: {
+    locales,
+    defaultLocale: 'en',
+    routing: {
+      prefixDefaultLocale: false,
+    },
+  },
+  integrations: [
+    {
+      name: 'staff-pages',
+      hooks: {
+        'astro:config:setup': ({ injectRoute }) => {
+          if (internal) staffRoutes.forEach((route) => injectRoute(route));
+        },
+      },
+    },
+    {
+      name: 'api-server',
+      hooks: {
+        // Everything else stays prerendered, so only the API needs the server
+        'astro:route:setup': ({ route }) => {
+          if (apiServer && route.component.startsWith('src/pages/api/')) route.prerender = false;
+        },
+      },
+    },
+  ],
+});
@@ -0,0 +1,52 @@
+/**
+ * Site Configuration
+ *
+ * Settings that control how the collection is loaded and processed.
+ * Kept in one place so they can be changed without touching pages or components.
+ */
+
+import type { ValidationStrictness } from './types/validation'
+import type { SourceConfig } from './types/ingest'
+import type { SiteEdition } from './types/publication'
+
+/**
+ * How invalid records in the export are handled
+ * - 'skip': leave them out of the collection
+ * - 'mark': keep them, but show them as invalid
+ */
+export const validationStrictness: ValidationStrictness = 'mark'
+
+/**
+ * Source systems the collection is loaded from, in load order
+ * Paths are relative to /src/data. When two sources share an object_id, the first one wins.
+ * The JSON export is read from disk record by record rather than bundled (see readSource in ingest.ts), as the full catalogue is large.
+ *
+ * COLLECTION_EXPORT=path/to/export.json builds from that one JSON export instead,
+ * e.g., the synthetic export of the benchmark (npm run benchmark)
+ */
+export const sources: SourceConfig[] = process.env.COLLECTION_EXPORT
+  ? [{ id: 'collection-export', label: 'Collection export (JSON)', format: 'json', path: process.env.COLLECTION_EXPORT, stream: true }]
+  : [
+      { id: 'collection-export', label: 'Collection export (JSON)', format: 'json', path: 'collection.json', stream: true },
+      { id: 'registrar-spreadsheet', label: 'Registrar spreadsheet (CSV)', format: 'csv', path: 'sources/registrar-spreadsheet.csv' },
+      { id: 'emuseum', label: 'eMuseum (XML)', format: 'emuseum-xml', path: 'sources/emuseum.xml' },
+    ]
+
+/**
+ * Cards per page of the collection grid (see pagination.ts)
+ * Each page is a static file, so this trades page weight against the number of pages
+ */
+export const gridPageSize = 48
+
+/**
+ * Base of the stable URIs used for records in Linked Art exports
+ * Objects become <base>object/<object_id>, creators <base>person/<slug> or <base>group/<slug>
+ */
+export const linkedDataBaseUri = 'https://collection.eamesinstitute.org/'
+
+/**
+ * Which edition of the site is built
+ * - 'public' (default): the publication policy in /src/data/publication.json applies and curator pages are left out
+ * - 'internal': every record and field, plus the curator pages - build it with SITE_EDITION=internal (npm run build:internal)
+ */
+export const siteEdition: SiteEdition = process.env.SITE_EDITION === 'internal' ? 'internal' : 'public'
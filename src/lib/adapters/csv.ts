@@ -0,0 +1,156 @@
+/**
+ * CSV Spreadsheet Adapter
+ *
+ * Reads a registrar spreadsheet saved as CSV (one object per row) into the
+ * shared raw record shape. Column names follow the raw record fields where
+ * they can (object_id, title, ...); structured fields are spread over
+ * several columns and put back together here.
+ *
+ * Conventions:
+ * - Multi-valued cells (creator, materials, keywords, tags, flags, related) are separated by ";"
+ * - flags lists snake_case flag names, e.g., "needs_review; prototype"
+ * - related lists "type:object_id" pairs, e.g., "part-of:EI-0030"
+ * - inventory_location is a location ID or the location written out, e.g., "Archive > Vault A > A-01"
+ * - Optional "# key: value" lines before the header carry the export meta (source, exportedAt)
+ */
+
+import type { SourceAdapter } from '../../types/ingest'
+import { optionalFields, toYear } from './fields'
+
+export const csvAdapter: SourceAdapter = {
+  format: 'csv',
+  parse(text, source) {
+    const { meta, body } = splitMetaLines(text)
+    const [header = [], ...rows] = parseCsv(body).filter(row => row.some(cell => cell.trim() !== ''))
+    const columns = header.map(name => name.trim())
+
+    const records = rows.map(row => {
+      const cells: { [column: string]: string | null } = {}
+      columns.forEach((column, i) => {
+        const value = row[i]?.trim() ?? ''
+        cells[column] = value === '' ? null : value
+      })
+      return toRawRecord(cells)
+    })
+
+    return {
+      meta: { source: meta.source ?? source.label, exportedAt: meta.exportedAt },
+      records,
+    }
+  },
+}
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180: quoted cells may contain commas, quotes and line breaks)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Maps one row to the raw record shape
+ * Unknown columns are ignored; empty cells become null
+ */
+function toRawRecord(cells: { [column: string]: string | null }): { [field: string]: unknown } {
+  const earliest = toYear(cells.date_earliest)
+  const latest = toYear(cells.date_latest)
+
+  const externalIds = {
+    emuseum: cells.emuseum_id ?? null,
+    museumplus: cells.museumplus_id ?? null,
+    ...(cells.internal_slug && { internal_slug: cells.internal_slug }),
+  }
+
+  return {
+    object_id: cells.object_id,
+    accession_number: cells.accession_number ?? null,
+    title: cells.title ?? null,
+    creator: splitList(cells.creator),
+    date: cells.date && (earliest != null || latest != null)
+      ? { display: cells.date, earliest, latest }
+      : cells.date ?? null,
+    object_type: cells.object_type,
+    department: cells.department,
+    materials: splitList(cells.materials),
+    dimensions: cells.dimensions ? { display: cells.dimensions } : null,
+    ...optionalFields({
+      credit_line: cells.credit_line,
+      description: cells.description,
+      condition: cells.condition,
+      status: cells.status,
+      inventory_location: cells.inventory_location,
+      keywords: splitList(cells.keywords),
+      tags: splitList(cells.tags),
+      flags: cells.flags ? Object.fromEntries(splitList(cells.flags)?.map(flag => [flag, true]) ?? []) : null,
+      related: splitList(cells.related)?.map(pair => {
+        const [type, objectId] = pair.split(':').map(part => part.trim())
+        return { type, object_id: objectId }
+      }) ?? null,
+      external_ids: externalIds.emuseum || externalIds.museumplus || externalIds.internal_slug ? externalIds : null,
+    }),
+  }
+}
+
+/**
+ * Reads leading "# key: value" lines, returning them and the rest of the text
+ */
+function splitMetaLines(text: string): { meta: { [key: string]: string }; body: string } {
+  const meta: { [key: string]: string } = {}
+  const lines = text.split(/\r?\n/)
+  let start = 0
+  while (start < lines.length && lines[start].startsWith('#')) {
+    const match = lines[start].match(/^#\s*([\w-]+)\s*:\s*(.*)$/)
+    if (match) meta[match[1]] = match[2].trim()
+    start++
+  }
+  return { meta, body: lines.slice(start).join('\n') }
+}
+
+/**
+ * "a; b; c" → ["a", "b", "c"] (null for an empty cell)
+ */
+function splitList(value: string | null | undefined): string[] | null {
+  if (!value) return null
+  const parts = value.split(';').map(part => part.trim()).filter(Boolean)
+  return parts.length > 0 ? parts : null
+}
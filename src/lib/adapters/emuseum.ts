@@ -0,0 +1,85 @@
+/**
+ * eMuseum XML Adapter
+ *
+ * Reads an eMuseum-style XML export into the shared raw record shape.
+ * eMuseum names fields after TMS (invno, displayDate, medium, creditline, ...);
+ * this maps them onto the raw record fields.
+ *
+ * Expected shape:
+ *   <objects source="..." exportedAt="...">
+ *     <object id="EI-0201" emuseumId="...">
+ *       <invno>…</invno> <title>…</title>
+ *       <people><person>…</person></people>
+ *       <displayDate>…</displayDate> <beginDate>…</beginDate> <endDate>…</endDate>
+ *       <classification>…</classification> <department>…</department>
+ *       <medium>…</medium> <dimensions>…</dimensions>
+ *       <creditline>…</creditline> <description>…</description>
+ *       <keywords><keyword>…</keyword></keywords>
+ *     </object>
+ *   </objects>
+ */
+
+import type { SourceAdapter } from '../../types/ingest'
+import { childElement, childText, parseXml, type XmlElement } from './xml'
+import { optionalFields, toYear } from './fields'
+
+export const emuseumAdapter: SourceAdapter = {
+  format: 'emuseum-xml',
+  parse(text, source) {
+    const root = parseXml(text)
+    return {
+      meta: {
+        source: root.attributes.source ?? source.label,
+        exportedAt: root.attributes.exportedAt,
+      },
+      records: root.children.filter(child => child.name === 'object').map(toRawRecord),
+    }
+  },
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Maps one <object> element to the raw record shape
+ */
+function toRawRecord(element: XmlElement): { [field: string]: unknown } {
+  const displayDate = childText(element, 'displayDate')
+  const beginDate = toYear(childText(element, 'beginDate'))
+  const endDate = toYear(childText(element, 'endDate'))
+  const dimensions = childText(element, 'dimensions')
+  const keywords = listText(element, 'keywords', 'keyword')
+  const people = listText(element, 'people', 'person')
+
+  return {
+    object_id: element.attributes.id,
+    accession_number: childText(element, 'invno'),
+    title: childText(element, 'title'),
+    creator: people,
+    // TMS always carries begin/end years next to the display date
+    date: displayDate && (beginDate != null || endDate != null)
+      ? { display: displayDate, earliest: beginDate, latest: endDate }
+      : displayDate,
+    object_type: childText(element, 'classification'),
+    department: childText(element, 'department'),
+    materials: childText(element, 'medium'),
+    dimensions: dimensions ? { display: dimensions } : null,
+    ...optionalFields({
+      credit_line: childText(element, 'creditline'),
+      description: childText(element, 'description'),
+      keywords,
+      external_ids: element.attributes.emuseumId ? { emuseum: element.attributes.emuseumId } : null,
+    }),
+  }
+}
+
+/**
+ * Texts of <item> elements inside a <list> child (null when there are none)
+ */
+function listText(element: XmlElement, list: string, item: string): string[] | null {
+  const values = (childElement(element, list)?.children ?? [])
+    .filter(child => child.name === item && child.text)
+    .map(child => child.text)
+  return values.length > 0 ? values : null
+}
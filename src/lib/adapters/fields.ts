@@ -0,0 +1,20 @@
+/**
+ * Field Helpers Shared by Adapters
+ *
+ * Small conversions every text-based source needs on its way to the raw record shape.
+ */
+
+/**
+ * Parses a whole-number year from text (null if missing or not a year)
+ */
+export function toYear(value: string | null | undefined): number | null {
+  const year = Number(value)
+  return value && Number.isInteger(year) ? year : null
+}
+
+/**
+ * Leaves out optional fields with no value, as the JSON export does
+ */
+export function optionalFields(fields: { [field: string]: unknown }): { [field: string]: unknown } {
+  return Object.fromEntries(Object.entries(fields).filter(([_, value]) => value != null))
+}
@@ -0,0 +1,87 @@
+/**
+ * Streaming JSON Export Reader
+ *
+ * Reads a { meta, records } export chunk by chunk and yields each record
+ * as soon as it has been read, so a large export is never held in memory as
+ * one string (or one parse tree). Only the text of the current record and the
+ * small envelope around the records array are buffered - the pipeline
+ * validates and transforms each record before the next one is read.
+ */
+
+/**
+ * Reads an export, yielding each element of its records array
+ *
+ * Strategy:
+ * 1. Scan the text one character at a time, tracking strings and nesting depth
+ * 2. Inside the top-level records array, buffer one element at a time and parse it
+ *    when its closing comma or bracket arrives
+ * 3. Everything else (the envelope) is kept with the records array left empty, and parsed at the end
+ *
+ * @param chunks - Text of the export in order, e.g., a file read stream with an encoding
+ * @yields Each parsed record, in order
+ * @returns The envelope, e.g., { meta, records: [] } - records is whatever the export had, emptied if it's an array
+ * @throws If the text isn't well-formed JSON (naming the record, when it's a record)
+ */
+export async function* readJsonStream(chunks: AsyncIterable<string>): AsyncGenerator<unknown, unknown> {
+  let envelope = ''     // text outside the records array
+  let element = ''      // text of the record being read
+  let depth = 0         // open objects and arrays
+  let inString = false
+  let escaped = false
+  let inRecords = false // between the [ and ] of the top-level records array
+  let count = 0
+
+  // An empty element is only fine as the whole of an empty array - like JSON.parse, reject [,], [1,,2] and [1,]
+  const parseRecord = (delimiter: ',' | ']'): unknown => {
+    if (element.trim() === '') {
+      throw new Error(`record ${count}: unexpected "${delimiter}"`)
+    }
+    let record: unknown
+    try {
+      record = JSON.parse(element)
+    } catch (e) {
+      throw new Error(`record ${count}: ${e instanceof Error ? e.message : e}`)
+    }
+    count++
+    element = ''
+    return record
+  }
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (inString) {
+        if (escaped) escaped = false
+        else if (char === '\\') escaped = true
+        else if (char === '"') inString = false
+      } else if (char === '"') {
+        inString = true
+      } else if (char === '{' || char === '[') {
+        depth++
+        // Only the array value of the top-level "records" key is streamed
+        if (char === '[' && depth === 2 && /"records"\s*:\s*$/.test(envelope)) {
+          inRecords = true
+          envelope += '[]'
+          continue
+        }
+      } else if (char === '}' || char === ']') {
+        depth--
+        if (inRecords && depth === 1) {
+          if (count > 0 || element.trim() !== '') yield parseRecord(']')
+          inRecords = false
+          continue
+        }
+      } else if (char === ',' && inRecords && depth === 2) {
+        yield parseRecord(',')
+        continue
+      }
+
+      if (inRecords) element += char
+      else envelope += char
+    }
+  }
+
+  if (inRecords || depth !== 0) {
+    throw new Error('unexpected end of export')
+  }
+  return JSON.parse(envelope)
+}
@@ -0,0 +1,35 @@
+/**
+ * JSON Export Adapter
+ *
+ * The original collection export is already in the shared raw shape
+ * ({ meta, records }), so this only parses it - all at once, or record by
+ * record from a stream for large exports (see json-stream.ts).
+ */
+
+import type { RawExport, SourceAdapter } from '../../types/ingest'
+import { readJsonStream } from './json-stream'
+
+export const jsonAdapter: SourceAdapter = {
+  format: 'json',
+  parse(text) {
+    const data = JSON.parse(text) as Partial<RawExport> | null
+    return { meta: data?.meta, records: data?.records }
+  },
+  parseStream(chunks) {
+    let data: Partial<RawExport> | null | undefined
+    let done = false
+
+    async function* records() {
+      data = (yield* readJsonStream(chunks)) as Partial<RawExport> | null
+      done = true
+    }
+
+    return {
+      records: records(),
+      envelope: () => {
+        if (!done) throw new Error('the export has not been read to the end')
+        return { meta: data?.meta, records: data?.records }
+      },
+    }
+  },
+}
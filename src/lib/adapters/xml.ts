@@ -0,0 +1,101 @@
+/**
+ * Minimal XML Reader
+ *
+ * Just enough XML for collection-system exports: elements, attributes, text,
+ * CDATA and the five predefined entities (plus numeric character references).
+ * Comments, processing instructions and DOCTYPEs are skipped. There is no
+ * DOMParser at build time, and exports don't need namespaces or DTDs.
+ */
+
+/**
+ * One parsed element
+ */
+export interface XmlElement {
+  name: string
+  attributes: { [name: string]: string }
+  children: XmlElement[]
+  text: string   // concatenated text content of this element (not of its children)
+}
+
+const ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' }
+
+/**
+ * Parses an XML document
+ *
+ * @param text - XML source
+ * @returns The root element
+ * @throws If the document is not well-formed (unclosed or mismatched tags)
+ */
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack: XmlElement[] = [root]
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+
+  let position = 0
+  for (const match of text.matchAll(tagPattern)) {
+    const current = stack[stack.length - 1]
+    current.text += decodeEntities(text.slice(position, match.index))
+    position = (match.index ?? 0) + match[0].length
+
+    const [whole, cdata, closing, name, attributeText, selfClosing] = match
+    if (cdata != null) {
+      current.text += cdata
+    } else if (whole.startsWith('<!') || whole.startsWith('<?')) {
+      continue
+    } else if (closing) {
+      if (current.name !== name) {
+        throw new Error(`Malformed XML: expected </${current.name}>, found </${name}>`)
+      }
+      current.text = current.text.trim()
+      stack.pop()
+    } else {
+      const element: XmlElement = { name, attributes: parseAttributes(attributeText), children: [], text: '' }
+      current.children.push(element)
+      if (!selfClosing) stack.push(element)
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`)
+  }
+  const [documentElement] = root.children
+  if (!documentElement) {
+    throw new Error('Malformed XML: no root element')
+  }
+  return documentElement
+}
+
+/**
+ * First child element with the given name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | null {
+  return element.children.find(child => child.name === name) ?? null
+}
+
+/**
+ * Text of the first child element with the given name (null when missing or empty)
+ */
+export function childText(element: XmlElement, name: string): string | null {
+  const text = childElement(element, name)?.text
+  return text ? text : null
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+function parseAttributes(text: string): { [name: string]: string } {
+  const attributes: { [name: string]: string } = {}
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3])
+  }
+  return attributes
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+    return ENTITIES[code] ?? entity
+  })
+}
@@ -0,0 +1,197 @@
+/**
+ * JSON API
+ *
+ * Query parsing, filtering, field selection and cursor pagination for the
+ * read-only endpoints in /src/pages/api, so other tools (the label printer,
+ * the exhibition planning sheet) can read normalized Items without
+ * re-implementing transform.ts.
+ *
+ * Filters use the same query parameters as the collection grid (see search.ts),
+ * but the API rejects malformed values with a 400 instead of ignoring them.
+ */
+
+import schema from '../data/api-schema.json'
+import type { ErrorResponse, ItemsQuery, ItemsResponse, SelectedItem } from '../types/api'
+import type { Item } from '../types/item'
+import type { SearchDocument, SortOption } from '../types/search'
+import { flagConfigs } from './flags'
+import { applyFilters, buildSearchIndex, parseFilterState, serializeFilterState, SORT_OPTIONS } from './search'
+
+export const DEFAULT_LIMIT = 20
+export const MAX_LIMIT = 100
+
+// Every Item field, as published in the schema
+export const ITEM_FIELDS = Object.keys(schema.definitions.Item.properties) as (keyof Item)[]
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Reads an /api/items.json query string
+ *
+ * Strategy:
+ * 1. Read the filters like the grid does (q, department, type, flag, quality, creator, from, to, sort)
+ * 2. Reject values the grid would silently drop: non-integer years, unknown flags and sort orders
+ * 3. Read fields (comma-separated Item fields), limit (1-100, default 20) and cursor
+ *
+ * @param params - Request query string
+ * @returns The query, or an error message for a 400 response
+ */
+export function parseItemsQuery(params: URLSearchParams): { query: ItemsQuery } | { error: string } {
+  for (const name of ['from', 'to']) {
+    const value = params.get(name)
+    if (value != null && !/^-?\d+$/.test(value.trim())) return { error: `${name} must be a year, got "${value}"` }
+  }
+  const unknownFlag = params.getAll('flag').find(flag => !flagConfigs.some(config => config.key === flag))
+  if (unknownFlag) return { error: `unknown flag "${unknownFlag}"` }
+  const sort = params.get('sort')
+  if (sort != null && !SORT_OPTIONS.includes(sort as SortOption)) return { error: `unknown sort "${sort}"` }
+
+  const fields = parseFields(params.get('fields'))
+  if ('error' in fields) return fields
+
+  const limitValue = params.get('limit')
+  const limit = limitValue == null ? DEFAULT_LIMIT : Number(limitValue)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `limit must be a whole number from 1 to ${MAX_LIMIT}, got "${limitValue}"` }
+  }
+
+  return {
+    query: {
+      filters: parseFilterState(params),
+      fields: fields.fields,
+      limit,
+      cursor: params.get('cursor'),
+    },
+  }
+}
+
+/**
+ * Reads the ?fields= value: comma-separated Item fields, e.g., "title,location"
+ *
+ * @param value - Parameter value (null or blank selects every field)
+ * @returns The fields, or an error message for a 400 response
+ */
+export function parseFields(value: string | null): { fields: (keyof Item)[] | null } | { error: string } {
+  const fields = (value ?? '').split(',').map(field => field.trim()).filter(Boolean)
+  const unknown = fields.find(field => !ITEM_FIELDS.includes(field as keyof Item))
+  if (unknown) return { error: `unknown field "${unknown}"` }
+  return { fields: fields.length > 0 ? fields as (keyof Item)[] : null }
+}
+
+/**
+ * Runs a query against the items
+ *
+ * Strategy:
+ * 1. Filter and sort with the grid's search index (see applyFilters)
+ * 2. Start after the item the cursor points at - cursors are opaque (the encoded id of
+ *    the last item on the previous page), so pages stay stable while the filters don't change
+ * 3. Keep the selected fields and link to the next page with the same filters
+ *
+ * @param items - Published items
+ * @param query - From parseItemsQuery
+ * @param path - Path of the endpoint, for the next-page link
+ * @param index - Search index of the items, if already built (see loadSearchIndex)
+ * @returns The page, or an error message for a 400 response
+ */
+export function queryItems(
+  items: Item[],
+  query: ItemsQuery,
+  path: string,
+  index: SearchDocument[] = buildSearchIndex(items),
+): { page: ItemsResponse } | { error: string } {
+  const byId = new Map(items.map(item => [item.id, item]))
+  const ids = applyFilters(index, query.filters)
+
+  let start = 0
+  if (query.cursor != null) {
+    const after = ids.indexOf(decodeCursor(query.cursor))
+    if (after === -1) return { error: `cursor "${query.cursor}" does not match these filters` }
+    start = after + 1
+  }
+
+  const pageIds = ids.slice(start, start + query.limit)
+  const more = start + pageIds.length < ids.length
+  const nextCursor = more ? encodeCursor(pageIds[pageIds.length - 1]) : null
+
+  return {
+    page: {
+      data: pageIds.map(id => selectFields(byId.get(id) as Item, query.fields)),
+      page: {
+        limit: query.limit,
+        total: ids.length,
+        nextCursor,
+        next: nextCursor ? `${path}?${nextPageParams(query, nextCursor)}` : null,
+      },
+    },
+  }
+}
+
+/**
+ * Query for a prerendered /api/items.json: every item on one page
+ * A static file can't read its query string, so it always serves the whole published collection
+ */
+export function staticItemsQuery(total: number): ItemsQuery {
+  return {
+    filters: parseFilterState(new URLSearchParams()),
+    fields: null,
+    limit: Math.max(total, 1),
+    cursor: null,
+  }
+}
+
+/**
+ * Keeps only the selected fields of an item (id is always kept)
+ *
+ * @param item - Item to trim
+ * @param fields - Fields to keep (null keeps every field)
+ * @returns New item with only those fields (does not mutate input)
+ */
+export function selectFields(item: Item, fields: (keyof Item)[] | null): SelectedItem {
+  if (fields == null) return item
+  const selected: SelectedItem = { id: item.id }
+  const copy = <K extends keyof Item>(field: K) => {
+    selected[field] = item[field]
+  }
+  ITEM_FIELDS.filter(field => fields.includes(field)).forEach(copy)
+  return selected
+}
+
+/**
+ * JSON response with the API's content type
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  })
+}
+
+/**
+ * Error response, e.g., errorResponse(400, 'unknown flag "broken"')
+ */
+export function errorResponse(status: number, message: string): Response {
+  const body: ErrorResponse = { error: { status, message } }
+  return jsonResponse(body, status)
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+function encodeCursor(id: string): string {
+  return Buffer.from(id).toString('base64url')
+}
+
+function decodeCursor(cursor: string): string {
+  return Buffer.from(cursor, 'base64url').toString()
+}
+
+function nextPageParams(query: ItemsQuery, cursor: string): URLSearchParams {
+  const params = serializeFilterState(query.filters)
+  if (query.fields) params.set('fields', query.fields.join(','))
+  if (query.limit !== DEFAULT_LIMIT) params.set('limit', String(query.limit))
+  params.set('cursor', cursor)
+  return params
+}
@@ -0,0 +1,80 @@
+/**
+ * Transformation Audit Summary
+ *
+ * Rolls per-record transformation events up into collection-level counts
+ * such as "12 dates nulled as unknown" or "3 creator names mapped to their canonical form".
+ */
+
+import { UNKNOWN_TITLE } from './transform'
+import type { TransformEvent, TransformRule, TransformSummaryEntry } from '../types/audit'
+
+// Plural nouns used in summary messages (fields not listed use their own name)
+const FIELD_NOUNS: { [field: string]: string } = {
+  title: 'titles',
+  creators: 'creators',
+  date: 'dates',
+  materials: 'materials',
+  dimensions: 'dimensions',
+  flags: 'flags',
+  related: 'related links',
+  rights: 'rights statements',
+  externalIds: 'external IDs',
+  location: 'locations',
+}
+
+// Message template for each rule - receives the count and the field's plural noun
+const RULE_MESSAGES: { [rule in TransformRule]: (count: number, noun: string) => string } = {
+  'title-fallback': count => `${count} missing titles replaced with "${UNKNOWN_TITLE}"`,
+  'unknown-nulled': (count, noun) => `${count} ${noun} nulled as unknown`,
+  'empty-nulled': (count, noun) => `${count} empty ${noun} nulled`,
+  'joint-name-split': count => `${count} joint creator names split`,
+  'alias-applied': count => `${count} creator names mapped to their canonical form`,
+  'uncertain-marker': count => `${count} creators marked uncertain ("?")`,
+  'duplicate-dropped': (count, noun) => `${count} duplicate ${noun} dropped`,
+  'date-unparseable': count => `${count} dates kept without year bounds (unparseable)`,
+  'array-joined': (count, noun) => `${count} ${noun} lists joined into one string`,
+  'placeholder-display-ignored': count => `${count} placeholder dimension displays ignored`,
+  'placeholder-part-dropped': count => `${count} "?" dimension parts dropped`,
+  'parsed-from-display': count => `${count} dimensions read from the display string`,
+  'descriptive-only': count => `${count} dimensions kept as descriptive only (no measurement)`,
+  'unit-assumed': count => `${count} dimensions without a unit assumed to be inches`,
+  'non-boolean-dropped': count => `${count} non-boolean flags discarded`,
+  'non-scalar-dropped': count => `${count} non-scalar external IDs discarded`,
+  'flag-inferred': count => `${count} flags inferred from the data`,
+  'notes-dropped': count => `${count} rights notes dropped`,
+  'provenance-text-split': count => `${count} free-text provenance entries split into fields`,
+  'term-mapped': (count, noun) => `${count} ${noun} mapped to their preferred vocabulary term`,
+  'term-unmapped': (count, noun) => `${count} ${noun} not in the vocabulary (kept as-is)`,
+  'location-resolved': count => `${count} inventory location IDs looked up in the location authority`,
+  'location-unresolved': count => `${count} inventory location IDs not in the location authority (kept as codes)`,
+  'location-conflict': count => `${count} location fields disagreeing with the inventory location (location field kept)`,
+}
+
+/**
+ * Groups events by field and rule and counts them
+ *
+ * @param events - Events collected from transformRecord / transformRecords
+ * @returns One entry per field/rule combination, most frequent first
+ */
+export function summarizeEvents(events: TransformEvent[]): TransformSummaryEntry[] {
+  const groups = new Map<string, TransformEvent[]>()
+  events.forEach(event => {
+    const key = `${event.field}:${event.rule}`
+    const group = groups.get(key)
+    if (group) group.push(event)
+    else groups.set(key, [event])
+  })
+
+  return [...groups.values()]
+    .map(group => {
+      const { field, rule } = group[0]
+      return {
+        field,
+        rule,
+        count: group.length,
+        objectIds: [...new Set(group.map(event => event.objectId))],
+        message: RULE_MESSAGES[rule](group.length, FIELD_NOUNS[field] ?? field),
+      }
+    })
+    .sort((a, b) => b.count - a.count)
+}
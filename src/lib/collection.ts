@@ -0,0 +1,194 @@
+/**
+ * Collection Loading Pipeline
+ *
+ * Reads every configured source, validating and transforming each record as
+ * it is read (so a large export is never held whole), then
+ * applies curator corrections, resolves related objects and looks for
+ * duplicates across all of them.
+ * Every page that needs the collection goes through here, so they all see
+ * exactly the same data. Public pages use loadPublishedCollection, which
+ * applies the publication policy for the edition being built.
+ */
+
+import { createEntry } from './transform'
+import { resolveRelatedEntries } from './relations'
+import { detectDuplicates } from './duplicates'
+import { summarizeEvents } from './audit'
+import { findUnmappedTerms } from './vocabulary'
+import { applyCorrections } from './corrections'
+import { publishEntries } from './publication'
+import { createExportValidator, mergeValidationReports } from './validate'
+import { readSource } from './ingest'
+import { buildFacets, buildSearchIndex } from './search'
+import { useTranslations } from './i18n'
+import { siteEdition, sources, validationStrictness } from '../config'
+import type { CollectionEntry, ExportMeta } from '../types/entry'
+import type { ValidationReport } from '../types/validation'
+import type { TransformEvent, TransformSummaryEntry } from '../types/audit'
+import type { DanglingReference } from '../types/relations'
+import type { DuplicateReport } from '../types/duplicates'
+import type { SourceConfig } from '../types/ingest'
+import type { UnmappedTerm } from '../types/vocabulary'
+import type { CorrectionIssue } from '../types/corrections'
+import type { SiteEdition } from '../types/publication'
+import type { Facets, SearchDocument } from '../types/search'
+
+/**
+ * One source as loaded
+ */
+export interface LoadedSource {
+  config: SourceConfig
+  meta: ExportMeta | null  // null when the source's meta failed validation
+  count: number            // entries taken from it (after validation and de-duplication)
+}
+
+/**
+ * Everything the pipeline produces
+ */
+export interface LoadedCollection {
+  entries: CollectionEntry[]                 // normalized items (with their raw records in the internal edition)
+  invalidIds: Set<string>                    // kept records that failed validation ("mark" strictness)
+  report: ValidationReport                   // validation problems
+  transformSummary: TransformSummaryEntry[]  // what the normalizers changed or dropped
+  unmappedTerms: UnmappedTerm[]              // keywords, tags and materials missing from the vocabulary
+  dangling: DanglingReference[]              // related links whose target isn't in the collection
+  correctionIssues: CorrectionIssue[]        // curator corrections that couldn't be applied
+  duplicates: DuplicateReport                // candidate duplicate clusters for review
+  sources: LoadedSource[]                    // every configured source, in load order
+}
+
+// Cached so pages and getStaticPaths share one run per build (and the API server one run per process)
+// A run that fails is dropped from its cache, so the next request tries again (see remember)
+const collectionCache = new Map<'collection', Promise<LoadedCollection>>()
+const publishedCache = new Map<SiteEdition, Promise<LoadedCollection>>()
+const searchIndexCache = new Map<SiteEdition, Promise<SearchDocument[]>>()
+const facetsCache = new Map<string, Promise<Facets>>()
+
+/**
+ * Loads and processes the collection (once per build)
+ *
+ * @returns The processed collection
+ * @throws If a source can't be read at all (validation problems never throw)
+ */
+export function loadCollection(): Promise<LoadedCollection> {
+  return remember(collectionCache, 'collection', runPipeline)
+}
+
+/**
+ * Loads the collection as one edition of the site shows it
+ * The public edition leaves out withheld records and redacts the rest (see publication.ts);
+ * the internal edition is the collection as loaded
+ *
+ * @param edition - Edition being built (defaults to siteEdition in config.ts)
+ * @returns The processed collection with the edition's entries - reports still cover every record
+ */
+export function loadPublishedCollection(edition: SiteEdition = siteEdition): Promise<LoadedCollection> {
+  return remember(publishedCache, edition, () => loadCollection().then(collection => edition === 'internal'
+    ? collection
+    : { ...collection, entries: publishEntries(collection.entries, collection.invalidIds).entries }))
+}
+
+/**
+ * Search index of the collection as an edition shows it (built once per build)
+ * Shared by every grid page and /search-index.json (see search.ts)
+ */
+export function loadSearchIndex(edition: SiteEdition = siteEdition): Promise<SearchDocument[]> {
+  return remember(searchIndexCache, edition, () => loadPublishedCollection(edition)
+    .then(collection => buildSearchIndex(collection.entries.map(entry => entry.item))))
+}
+
+/**
+ * Facet counts of the search index, with labels in a locale (built once per locale and build)
+ */
+export function loadFacets(locale: string | undefined, edition: SiteEdition = siteEdition): Promise<Facets> {
+  return remember(facetsCache, `${edition}:${locale}`, () => loadSearchIndex(edition)
+    .then(index => buildFacets(index, useTranslations(locale))))
+}
+
+async function runPipeline(): Promise<LoadedCollection> {
+  const events: TransformEvent[] = []
+  const entries: CollectionEntry[] = []
+  const invalidIds = new Set<string>()
+  const reports: ValidationReport[] = []
+  const loaded: LoadedSource[] = []
+  const loadedFrom = new Map<string, string>()  // object_id → id of the source it was loaded from
+
+  for (const source of sources) {
+    // Read with the source's adapter and validate at runtime, one record at a time - bad records are
+    // reported instead of crashing the build
+    const raw = await readSource(source)
+    const validator = createExportValidator(validationStrictness)
+    const sourceEntries: CollectionEntry[] = []
+
+    for await (const value of raw.records) {
+      const checked = validator.check(value)
+      if (!checked) continue
+      const { record } = checked
+
+      // The first source to supply an object_id wins; later copies are reported and skipped
+      const existing = loadedFrom.get(record.object_id)
+      if (existing != null) {
+        validator.skip(checked, 'object_id', `duplicate object_id, already loaded from "${existing}"`)
+        continue
+      }
+      loadedFrom.set(record.object_id, source.id)
+      if (checked.invalid) invalidIds.add(record.object_id)
+
+      // Transform the messy data into a clean, normalized item, adding to the audit trail of every
+      // normalization rule that fired. Only the internal edition shows raw records (SourceView), so
+      // the public one doesn't keep them - only the item outlives the record
+      sourceEntries.push(createEntry(record, null, source.id, events, siteEdition === 'internal'))
+    }
+
+    // Meta may follow the records in the export, so it's only known now
+    const validation = validator.finish(raw.envelope())
+    sourceEntries.forEach(entry => {
+      entry.meta = validation.meta
+      entries.push(entry)
+    })
+    reports.push({
+      ...validation.report,
+      issues: validation.report.issues.map(issue => ({ ...issue, source: source.id })),
+    })
+    loaded.push({ config: source, meta: validation.meta, count: sourceEntries.length })
+  }
+
+  // Apply curator overrides on top of the normalized data (see corrections.ts)
+  const corrected = applyCorrections(entries)
+
+  // Resolve related objects in both directions (across sources), with titles for display -
+  // after the corrections, so a corrected title or relation is what every related list shows
+  const related = resolveRelatedEntries(corrected.entries)
+
+  return {
+    entries: related.entries,
+    invalidIds,
+    report: mergeValidationReports(reports, validationStrictness),
+    transformSummary: summarizeEvents(events),
+    unmappedTerms: findUnmappedTerms(events),
+    dangling: related.dangling,
+    correctionIssues: corrected.issues,
+    duplicates: detectDuplicates(related.entries.map(entry => entry.item)),
+    sources: loaded,
+  }
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Returns the cached promise for a key, or starts one with load and caches it
+ * A promise that rejects is removed again, so a failed load isn't cached for good
+ */
+function remember<K, T>(cache: Map<K, Promise<T>>, key: K, load: () => Promise<T>): Promise<T> {
+  const existing = cache.get(key)
+  if (existing) return existing
+
+  const loading = load()
+  cache.set(key, loading)
+  loading.catch(() => {
+    if (cache.get(key) === loading) cache.delete(key)
+  })
+  return loading
+}
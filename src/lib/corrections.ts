@@ -0,0 +1,205 @@
+/**
+ * Curator Corrections
+ *
+ * Applies the overrides in /src/data/corrections.json on top of the
+ * transformed collection, so a normalizer's mistake can be fixed without
+ * editing the export or transform.ts. Every override names its author, date
+ * and reason; the applied ones are recorded on Item.corrections so the UI can
+ * show which values were overridden.
+ *
+ * Overrides that can't be applied - the object or field no longer exists in
+ * the export, the value doesn't have the field's normalized type, or the
+ * transform now produces the same value - are reported instead of silently ignored.
+ */
+
+import correctionsFile from '../data/corrections.json'
+import { inferFlags } from './flag-rules'
+import { anyValue, arrayOf, boolean, literal, mapOf, nullable, number, object, string, type Schema } from './schema'
+import type { CollectionEntry } from '../types/entry'
+import type { Correction, CorrectionIssue, CorrectionProblem, CorrectionsFile } from '../types/corrections'
+import type { FlagOrigins, Item, ItemCorrections, ItemFlags } from '../types/item'
+
+// Fields that identify the item or are derived from other fields
+const PROTECTED_FIELDS = ['id', 'flagOrigins', 'corrections'] as const
+
+/* ============================================================================
+ * ITEM SCHEMA - Mirrors the normalized Item type, for every field a correction may set
+ * ========================================================================= */
+
+const itemDate = object({
+  display: string,
+  earliest: nullable(number),
+  latest: nullable(number),
+  precision: nullable(literal('day', 'month', 'year', 'decade', 'century')),
+  approximate: boolean,
+}, ['display', 'earliest', 'latest', 'precision', 'approximate'])
+
+const FIELD_SCHEMAS: { [field in Exclude<keyof Item, typeof PROTECTED_FIELDS[number]>]: Schema } = {
+  accessionNumber: nullable(string),
+  title: string,
+  creators: arrayOf(object({ name: string, raw: string, uncertain: boolean }, ['name', 'raw', 'uncertain'])),
+  date: nullable(itemDate),
+  objectType: string,
+  department: string,
+  materials: nullable(string),
+  dimensions: nullable(object({
+    display: nullable(string),
+    values: mapOf(number),
+    sourceUnit: nullable(string),
+    approximate: boolean,
+    qualifier: nullable(string),
+    descriptive: nullable(string),
+  }, ['display', 'values', 'sourceUnit', 'approximate', 'qualifier', 'descriptive'])),
+  flags: nullable(mapOf(boolean)),
+  related: arrayOf(object({
+    type: string,
+    objectId: nullable(string),
+    slug: nullable(string),
+    title: string,
+    inverse: boolean,
+    broken: boolean,
+  }, ['type', 'objectId', 'slug'])),
+  notes: nullable(arrayOf(string)),
+  externalIds: nullable(mapOf(string)),
+  keywords: nullable(arrayOf(string)),
+  description: nullable(string),
+  rights: nullable(string),
+  variants: nullable(arrayOf(object({
+    color: nullable(string),
+    shell: nullable(string),
+    finish: nullable(string),
+    upholstery: nullable(string),
+    notes: nullable(string),
+  }, ['color', 'shell', 'finish', 'upholstery', 'notes']))),
+  tags: nullable(arrayOf(string)),
+  creditLine: nullable(string),
+  condition: nullable(string),
+  geo: nullable(object({ country: string, region: string })),
+  transcription: nullable(string),
+  series: nullable(object({ title: string, type: string })),
+  location: nullable(object({
+    site: nullable(string),
+    room: nullable(string),
+    shelf: nullable(string),
+    code: nullable(string),
+  }, ['site', 'room', 'shelf', 'code'])),
+  edition: nullable(object({ number: anyValue, notes: string })),
+  status: nullable(string),
+  provenance: nullable(arrayOf(object({
+    owner: nullable(string),
+    date: nullable(itemDate),
+    method: nullable(string),
+    sourceNote: nullable(string),
+  }, ['owner', 'date', 'method', 'sourceNote']))),
+}
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Applies curator corrections to the collection
+ *
+ * Strategy:
+ * 1. Check each correction: the object and field must exist, author/date/reason must be set,
+ *    and the value must match the field's normalized type (FIELD_SCHEMAS), nested fields included
+ * 2. Report corrections that fail a check, or whose value equals what the transform produced
+ * 3. Replace the field's value, keeping the original on Item.corrections
+ * 4. Re-run the flag rules on corrected items, so inferred flags match the corrected data
+ *
+ * @param entries - Transformed entries (related objects are resolved afterwards, from the corrected items)
+ * @param corrections - Corrections to apply (defaults to /src/data/corrections.json)
+ * @returns Entries with corrections applied (inputs are not mutated) and the corrections that weren't
+ */
+export function applyCorrections(
+  entries: CollectionEntry[],
+  corrections: CorrectionsFile = correctionsFile,
+): { entries: CollectionEntry[]; issues: CorrectionIssue[] } {
+  const issues: CorrectionIssue[] = []
+  const byId = new Map(entries.map(entry => [entry.item.id, entry]))
+  const corrected = new Map<string, Item>()
+
+  Object.entries(corrections).forEach(([objectId, fields]) => {
+    Object.entries(fields).forEach(([field, correction]) => {
+      const item = corrected.get(objectId) ?? byId.get(objectId)?.item
+      const problem = checkCorrection(item, field, correction)
+      if (problem) {
+        issues.push({ objectId, field, reason: problem })
+        return
+      }
+      if (!item) return
+
+      const key = field as keyof Item
+      const { author, date, reason, value } = correction
+      corrected.set(objectId, {
+        ...item,
+        [key]: value,
+        corrections: { ...item.corrections, [key]: { author, date, reason, original: item[key] } } as ItemCorrections,
+      })
+    })
+  })
+
+  return {
+    entries: entries.map(entry => {
+      const item = corrected.get(entry.item.id)
+      return item ? { ...entry, item: reinferFlags(item) } : entry
+    }),
+    issues,
+  }
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * The reason a correction can't be applied, or null if it can
+ */
+function checkCorrection(item: Item | undefined, field: string, correction: Correction): CorrectionProblem | null {
+  if (!item) {
+    return 'unknown-object'
+  }
+  if (!Object.hasOwn(FIELD_SCHEMAS, field)) {
+    return 'unknown-field'
+  }
+  const { author, date, reason } = correction ?? {}
+  if (![author, date, reason].every(text => typeof text === 'string' && text.trim() !== '')) {
+    return 'missing-attribution'
+  }
+
+  if (FIELD_SCHEMAS[field as keyof typeof FIELD_SCHEMAS].check(correction.value, field).length > 0) {
+    return 'type-mismatch'
+  }
+  if (sameValue(item[field as keyof Item], correction.value)) {
+    return 'unchanged'
+  }
+  return null
+}
+
+/**
+ * Drops inferred flags and runs the flag rules again
+ * Flags from the export are kept - and every flag when "flags" itself was corrected
+ */
+function reinferFlags(item: Item): Item {
+  const flags: ItemFlags = {}
+  Object.entries(item.flags ?? {}).forEach(([flag, value]) => {
+    if (item.corrections?.flags || item.flagOrigins?.[flag as keyof FlagOrigins]?.source !== 'inferred') {
+      flags[flag as keyof ItemFlags] = value
+    }
+  })
+  return inferFlags({ ...item, flags: Object.keys(flags).length > 0 ? flags : null })
+}
+
+/**
+ * Deep equality for JSON values (object key order doesn't matter)
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aRecord = a as { [key: string]: unknown }
+  const bRecord = b as { [key: string]: unknown }
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)])
+  return [...keys].every(key => sameValue(aRecord[key], bRecord[key]))
+}
@@ -0,0 +1,122 @@
+/**
+ * Creator Name Normalization
+ *
+ * Splits joint-name strings ("Charles and Ray Eames") into individual people
+ * and maps spelling variants to one canonical name using the alias table
+ * in /src/data/creator-aliases.json.
+ */
+
+import aliasTable from '../data/creator-aliases.json'
+import type { Creator } from '../types/item'
+
+/* ============================================================================
+ * ALIAS LOOKUPS - Built once from the alias table, keyed by lowercase name
+ * ========================================================================= */
+
+// "charles ormond eames" → "Charles Eames" (canonical names map to themselves)
+const canonicalNames = new Map<string, string>()
+Object.entries(aliasTable.aliases).forEach(([canonical, alternates]) => {
+  canonicalNames.set(canonical.toLowerCase(), canonical)
+  alternates.forEach(alternate => canonicalNames.set(alternate.toLowerCase(), canonical))
+})
+
+// "charles and ray eames" → ["Charles Eames", "Ray Eames"]
+const jointNames = new Map<string, string[]>()
+Object.entries(aliasTable.joint).forEach(([joint, names]) => {
+  jointNames.set(joint.toLowerCase(), names)
+})
+
+// Canonical names of organizations (everyone else is assumed to be a person)
+const groupNames = new Set(aliasTable.groups.map(name => name.toLowerCase()))
+
+// Two or more capitalized words, e.g., "Eero Saarinen" (not "Co." or "Smith")
+const FULL_NAME = /^\p{Lu}[\p{L}.'-]*(?: \p{Lu}[\p{L}.'-]*)+$/u
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Turns one raw creator string into one or more Creator entries
+ *
+ * Strategy:
+ * 1. Skip empty and "Unknown" values
+ * 2. Split joint names - first via the alias table, then the "Given and Given Surname" pattern,
+ *    then lists of full names ("A B, C D and E F")
+ * 3. Strip a trailing "?" and mark the entry as uncertain
+ * 4. Map each name to its canonical form (unmatched names are kept as-is)
+ *
+ * @param raw - Creator string exactly as found in the source
+ * @returns Creator entries (empty for unknown creators)
+ */
+export function parseCreator(raw: string): Creator[] {
+  const trimmed = raw.trim()
+  if (trimmed === '' || trimmed.toLowerCase() === 'unknown') {
+    return []
+  }
+
+  // "Herman Miller?" → uncertain attribution of "Herman Miller"
+  const uncertain = trimmed.endsWith('?')
+  const name = uncertain ? trimmed.slice(0, -1).trim() : trimmed
+
+  return splitJointName(name).map(part => ({
+    name: canonicalize(part),
+    raw,
+    uncertain,
+  }))
+}
+
+/**
+ * Looks up the canonical form of a single name
+ * Names that aren't in the alias table are returned unchanged
+ */
+export function canonicalize(name: string): string {
+  return canonicalNames.get(name.toLowerCase()) ?? name
+}
+
+/**
+ * Whether a canonical creator name is an organization rather than a person
+ * Uses the "groups" list in the alias table
+ */
+export function isGroup(name: string): boolean {
+  return groupNames.has(name.toLowerCase())
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Splits a joint name into individual names
+ *
+ * Examples:
+ * - "Charles and Ray Eames" → ["Charles Eames", "Ray Eames"] (alias table)
+ * - "Alison and Peter Smithson" → ["Alison Smithson", "Peter Smithson"] (pattern)
+ * - "Charles Eames, Ray Eames and Eero Saarinen" → three names (list of full names)
+ * - "F. Ad. Richter & Co." → unchanged (companies are never split)
+ */
+function splitJointName(name: string): string[] {
+  const joint = jointNames.get(name.toLowerCase())
+  if (joint) {
+    return joint
+  }
+
+  // Only split when both sides of "and" are a single given name sharing one surname
+  const match = name.match(/^(\p{Lu}[\p{L}'-]*) (?:and|&) (\p{Lu}[\p{L}'-]*) (\p{Lu}[\p{L}'-]*)$/u)
+  if (match && !canonicalNames.has(name.toLowerCase())) {
+    const [, first, second, surname] = match
+    return [`${first} ${surname}`, `${second} ${surname}`]
+  }
+
+  // Only split a comma list ending in "and" / "&" when every part is a full name,
+  // so "Knoll, Smith & Co." stays one organization
+  const list = name.match(/^(.+?),? (?:and|&) ([^,]+)$/u)
+  if (list && list[1].includes(',') && !canonicalNames.has(name.toLowerCase())) {
+    const parts = [...list[1].split(','), list[2]].map(part => part.trim())
+    if (parts.every(part => FULL_NAME.test(part))) {
+      return parts
+    }
+  }
+
+  return [name]
+}
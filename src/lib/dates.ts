@@ -0,0 +1,167 @@
+/**
+ * Free-Text Date Parsing
+ *
+ * Turns the date strings found in collection exports ("c. 1938", "1950s",
+ * "late 19th century", "1935–1936", "1935-36", "2025-03", "1950-01-01") into a
+ * structured ItemDate with inferred year bounds and a precision level.
+ */
+
+import type { DatePrecision, ItemDate } from '../types/item'
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Parses a free-text date into a structured ItemDate
+ *
+ * Strategy:
+ * 1. Strip an approximate prefix ("c.", "ca.", "circa", "approx.") and remember it
+ * 2. Try a range ("1935–1936", "1935-36", "1950s to 1960s") - parse each side separately
+ * 3. Otherwise parse a single value (day, month, year, decade or century)
+ * 4. If nothing matches (or a range ends before it starts): keep the display string with null bounds and precision
+ *
+ * @param value - Free-text date as found in the source
+ * @returns Structured date, or null for empty and "unknown" values
+ */
+export function parseDate(value: string): ItemDate | null {
+  const display = value.trim()
+  if (display === '' || display.toLowerCase() === 'unknown') {
+    return null
+  }
+
+  // "c. 1938" → approximate, then parse "1938"
+  const approximateMatch = display.match(APPROXIMATE_PREFIX)
+  const approximate = approximateMatch != null
+  const text = approximate ? display.slice(approximateMatch[0].length) : display
+
+  const parsed = parseRange(text) ?? parseSingle(text)
+
+  return {
+    display,
+    earliest: parsed?.earliest ?? null,
+    latest: parsed?.latest ?? null,
+    precision: parsed?.precision ?? null,
+    approximate,
+  }
+}
+
+/**
+ * Builds an ItemDate from a bare year number (e.g., 1954)
+ */
+export function dateFromYear(year: number): ItemDate {
+  return {
+    display: String(year),
+    earliest: year,
+    latest: year,
+    precision: 'year',
+    approximate: false,
+  }
+}
+
+/* ============================================================================
+ * PARSERS - Each returns bounds and precision, or null if it doesn't match
+ * ========================================================================= */
+
+type ParsedBounds = Pick<ItemDate, 'earliest' | 'latest'> & { precision: DatePrecision }
+
+const APPROXIMATE_PREFIX = /^(?:c\.|ca\.|ca(?=\s)|circa|approx\.?)\s*/i
+
+// Months and days of ISO dates ("2025-03", "1950-01-01"), so "1935-36" isn't read as a month
+const ISO_MONTH = /^\d{4}-(?:0[1-9]|1[0-2])$/
+const ISO_DAY = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/
+
+// Order matters: the coarser the precision, the later it appears
+const PRECISION_ORDER: DatePrecision[] = ['day', 'month', 'year', 'decade', 'century']
+
+/**
+ * Parses a range of two single values separated by a dash or "to"
+ * e.g., "1935–1936" → 1935..1936, "1935-36" → 1935..1936, "1950s-1960s" → 1950..1969
+ *
+ * A plain hyphen only counts as a separator between two four-digit values, or
+ * before a two-digit year that isn't a month, so ISO strings like "2025-03" are
+ * left for parseSingle. Ranges that end before they start are rejected.
+ */
+function parseRange(text: string): ParsedBounds | null {
+  const parts = text.split(/\s*[–—]\s*|\s+to\s+|\s+-\s+|(?<=^\d{4}s?)-(?=\d{4})|(?<=^\d{4})-(?=\d{2}$)(?!0[1-9]$|1[0-2]$)/i)
+  if (parts.length !== 2) {
+    return null
+  }
+
+  // "1935-36" → the end shares the start's century
+  const shortEnd = /^\d{4}$/.test(parts[0].trim()) && /^\d{2}$/.test(parts[1].trim())
+  const start = parseSingle(parts[0])
+  const end = parseSingle(shortEnd ? parts[0].trim().slice(0, 2) + parts[1].trim() : parts[1])
+  if (!start || !end) {
+    return null
+  }
+
+  // "1960 - 1950" has no year in it
+  if (start.earliest != null && end.latest != null && end.latest < start.earliest) {
+    return null
+  }
+
+  // Report the coarser of the two precisions ("1950–1960s" is decade-level)
+  const precision = PRECISION_ORDER.indexOf(start.precision) > PRECISION_ORDER.indexOf(end.precision)
+    ? start.precision
+    : end.precision
+
+  return { earliest: start.earliest, latest: end.latest, precision }
+}
+
+/**
+ * Parses a single date value
+ *
+ * Examples:
+ * - "1950-01-01" → 1950..1950 (day)
+ * - "2025-03"    → 2025..2025 (month)
+ * - "1954"       → 1954..1954 (year)
+ * - "1950s"      → 1950..1959 (decade)
+ * - "late 19th century" → 1867..1899 (century)
+ */
+function parseSingle(text: string): ParsedBounds | null {
+  const value = text.trim()
+
+  if (ISO_DAY.test(value)) {
+    const year = Number(value.slice(0, 4))
+    return { earliest: year, latest: year, precision: 'day' }
+  }
+
+  if (ISO_MONTH.test(value)) {
+    const year = Number(value.slice(0, 4))
+    return { earliest: year, latest: year, precision: 'month' }
+  }
+
+  if (/^\d{4}$/.test(value)) {
+    const year = Number(value)
+    return { earliest: year, latest: year, precision: 'year' }
+  }
+
+  const decade = value.match(/^(\d{3}0)'?s$/)
+  if (decade) {
+    const start = Number(decade[1])
+    return { earliest: start, latest: start + 9, precision: 'decade' }
+  }
+
+  return parseCentury(value)
+}
+
+/**
+ * Parses "19th century", "early 20th century", "mid-19th century", etc.
+ * The qualifier narrows the century to its first, middle or last third.
+ */
+function parseCentury(text: string): ParsedBounds | null {
+  const match = text.match(/^(?:(early|mid|late)[\s-]+)?(\d{1,2})(?:st|nd|rd|th)\s+century$/i)
+  if (!match) {
+    return null
+  }
+
+  const start = (Number(match[2]) - 1) * 100
+  const qualifier = match[1]?.toLowerCase()
+
+  if (qualifier === 'early') return { earliest: start, latest: start + 33, precision: 'century' }
+  if (qualifier === 'mid') return { earliest: start + 33, latest: start + 66, precision: 'century' }
+  if (qualifier === 'late') return { earliest: start + 67, latest: start + 99, precision: 'century' }
+
+  return { earliest: start, latest: start + 99, precision: 'century' }
+}
@@ -0,0 +1,225 @@
+/**
+ * Dimension Parsing, Conversion and Formatting
+ *
+ * Turns the dimension values found in collection exports into numbers in one
+ * canonical unit (centimeters), and formats them back for display in either
+ * metric or imperial units.
+ */
+
+import type { DimensionAxis, ItemDimensions, MeasurementSystem } from '../types/item'
+
+/* ============================================================================
+ * UNITS
+ * ========================================================================= */
+
+// Centimeters per unit - everything is stored in centimeters
+const CM_PER_UNIT: { [unit: string]: number } = {
+  mm: 0.1,
+  cm: 1,
+  m: 100,
+  in: 2.54,
+  ft: 30.48,
+}
+
+const UNIT_PATTERN = '(mm|cm|m|in|ft)'
+
+/**
+ * Converts a value in the given unit to centimeters
+ * Returns null for units we don't know how to convert
+ */
+export function toCentimeters(value: number, unit: string): number | null {
+  const factor = CM_PER_UNIT[unit.trim().toLowerCase()]
+  return factor == null ? null : value * factor
+}
+
+/**
+ * Whether a unit string is one we can convert
+ */
+export function isKnownUnit(unit: string): boolean {
+  return unit.trim().toLowerCase() in CM_PER_UNIT
+}
+
+/* ============================================================================
+ * PARSING
+ * ========================================================================= */
+
+/**
+ * A dimension display string broken into its parts
+ */
+export interface ParsedDimensionText {
+  values: { [axis in DimensionAxis]?: number }  // centimeters (empty if nothing measurable)
+  unit: string | null       // unit found in the text, if any
+  approximate: boolean      // "approx. 5 in"
+  qualifier: string | null  // what was measured, e.g., "box" in "box: 12 × 8 × 4 in"
+}
+
+// Axis labels used in display strings ("H 26 in") and trailing keywords ("36 in diameter")
+const AXIS_LABELS: { [label: string]: DimensionAxis } = {
+  h: 'height',
+  w: 'width',
+  d: 'depth',
+  l: 'length',
+  diameter: 'diameter',
+  diam: 'diameter',
+  wingspan: 'wingspan',
+}
+
+// Unlabeled values follow the usual museum convention: height × width × depth
+const UNLABELED_ORDER: DimensionAxis[] = ['height', 'width', 'depth']
+
+/**
+ * Parses a free-text dimension display
+ *
+ * Strategy:
+ * 1. Strip an approximate prefix ("approx.", "c.", "~") and a "qualifier:" prefix
+ * 2. Split on "×" / "x" into parts like "H 26 in", "12", "36 in diameter"
+ * 3. Read an optional axis label, a number and an optional unit from each part
+ * 4. Parts without a unit use the last unit in the string ("12 × 8 × 4 in"), then defaultUnit
+ * 5. If any part has no number, the text is descriptive only ("magazine", "letter size")
+ *
+ * Examples:
+ * - "H 26 in × W 22 in" → height 66.04, width 55.88
+ * - "box: 12 × 8 × 4 in" → height/width/depth, qualifier "box"
+ * - "approx. 24 in wingspan" → wingspan 60.96, approximate
+ * - "deck" → no values
+ *
+ * @param text - Display string from the source
+ * @param defaultUnit - Unit for numbers when the text names none (e.g., the record's "unit" field)
+ * @returns Parsed parts (values is empty for descriptive-only text)
+ */
+export function parseDimensionText(text: string, defaultUnit: string | null = null): ParsedDimensionText {
+  let rest = text.trim()
+
+  const approximateMatch = rest.match(/^(?:approx\.?|approximately|c\.|ca\.|~)\s*/i)
+  const approximate = approximateMatch != null
+  if (approximateMatch) {
+    rest = rest.slice(approximateMatch[0].length)
+  }
+
+  const qualifierMatch = rest.match(/^([a-z][a-z ]*):\s*/i)
+  const qualifier = qualifierMatch ? qualifierMatch[1].trim() : null
+  if (qualifierMatch) {
+    rest = rest.slice(qualifierMatch[0].length)
+  }
+
+  const partPattern = new RegExp(`^(?:([hwdl])\\s+)?(\\d+(?:\\.\\d+)?)\\s*${UNIT_PATTERN}?(?:\\s+([a-z]+))?$`, 'i')
+  const parts = rest.split(/\s*×\s*|\s+x\s+/i).map(part => part.match(partPattern))
+
+  // Any part that isn't a measurement makes the whole string descriptive
+  if (parts.length === 0 || parts.some(match => match == null)) {
+    return { values: {}, unit: null, approximate, qualifier }
+  }
+
+  const matches = parts as RegExpMatchArray[]
+  const units = matches.map(match => match[3]?.toLowerCase() ?? null)
+  const lastUnit = [...units].reverse().find(unit => unit != null) ?? null
+
+  const values: ParsedDimensionText['values'] = {}
+  let unlabeledIndex = 0
+
+  matches.forEach((match, i) => {
+    const label = (match[1] ?? match[4])?.toLowerCase()
+    const axis = label ? AXIS_LABELS[label] : UNLABELED_ORDER[unlabeledIndex++]
+    const unit = units[i] ?? lastUnit ?? defaultUnit
+    const cm = unit ? toCentimeters(Number(match[2]), unit) : null
+    if (axis && cm != null) {
+      values[axis] = cm
+    }
+  })
+
+  return { values, unit: lastUnit, approximate, qualifier }
+}
+
+/* ============================================================================
+ * FORMATTING
+ * ========================================================================= */
+
+/**
+ * Words formatDimensions puts around the numbers (e.g., from a message catalog)
+ * Axis templates take the measurement as {value}: "H {value}", "{value} diameter"
+ */
+export interface DimensionLabels {
+  axes: { [axis in DimensionAxis]: string }
+  approximate: string
+}
+
+// Display order - standard axes first, special ones ("12 in diameter") last
+const AXIS_ORDER: DimensionAxis[] = ['height', 'width', 'depth', 'length', 'diameter', 'wingspan']
+
+const ENGLISH_LABELS: DimensionLabels = {
+  axes: {
+    height: 'H {value}',
+    width: 'W {value}',
+    depth: 'D {value}',
+    length: 'L {value}',
+    diameter: '{value} diameter',
+    wingspan: '{value} wingspan',
+  },
+  approximate: 'approx.',
+}
+
+/**
+ * Formats structured dimensions for display
+ *
+ * Examples:
+ * - imperial: "H 26 in × W 22 in × D 24 in"
+ * - metric:   "H 66 cm × W 55.9 cm × D 61 cm"
+ * - approximate with qualifier: "approx. box: H 12 in × W 8 in"
+ * - measured with a category: "2.5 in diameter (small)"
+ * - descriptive only: "magazine"
+ * - Spanish labels and locale: "Al 66 cm × An 55,9 cm × P 61 cm"
+ *
+ * @param dimensions - Structured dimensions (or null)
+ * @param system - Show inches ('imperial') or centimeters ('metric')
+ * @param locale - Locale for number formatting (decimal separator)
+ * @param labels - Axis and "approx." wording (English by default)
+ * @returns Display string, or null if there is nothing to show
+ */
+export function formatDimensions(
+  dimensions: ItemDimensions | null,
+  system: MeasurementSystem,
+  locale = 'en',
+  labels: DimensionLabels = ENGLISH_LABELS,
+): string | null {
+  if (!dimensions) {
+    return null
+  }
+
+  const parts = AXIS_ORDER
+    .filter(axis => dimensions.values[axis] != null)
+    .map(axis => labels.axes[axis].replace('{value}', formatMeasurement(dimensions.values[axis] as number, system, locale)))
+
+  if (parts.length === 0) {
+    return dimensions.descriptive ?? dimensions.display
+  }
+
+  const prefix = [
+    dimensions.approximate ? labels.approximate : null,
+    dimensions.qualifier ? `${dimensions.qualifier}:` : null,
+  ].filter(Boolean).join(' ')
+
+  const suffix = dimensions.descriptive ? `(${dimensions.descriptive})` : null
+
+  return [prefix, parts.join(' × '), suffix].filter(Boolean).join(' ')
+}
+
+/**
+ * Sort key for ordering objects by size: the largest measured extent in centimeters
+ * Objects without measurements return null (sort them last)
+ */
+export function dimensionSortKey(dimensions: ItemDimensions | null): number | null {
+  const values = Object.values(dimensions?.values ?? {})
+  return values.length > 0 ? Math.max(...values) : null
+}
+
+/**
+ * Formats a centimeter value in the chosen system, trimming trailing zeros
+ * Inches keep two decimals (2.54 cm → "1 in"), centimeters one
+ */
+function formatMeasurement(cm: number, system: MeasurementSystem, locale: string): string {
+  const format = (value: number, digits: number) =>
+    new Intl.NumberFormat(locale, { maximumFractionDigits: digits, useGrouping: false }).format(value)
+  return system === 'metric'
+    ? `${format(cm, 1)} cm`
+    : `${format(cm / CM_PER_UNIT.in, 2)} in`
+}
@@ -0,0 +1,298 @@
+/**
+ * Display Helpers
+ *
+ * Turns normalized Items into labels and strings for the card and detail views.
+ * Formatting lives here (not in the transform) so the data stays structured.
+ */
+
+import type { Creator, FieldCorrection, Item, ItemDate } from '../types/item'
+import { formatDimensions, type DimensionLabels } from './dimensions'
+import { formatLocation } from './locations'
+import { DEFAULT_LOCALE, localePath, useTranslations, type MessageKey, type Translate } from './i18n'
+import { UNKNOWN_TITLE } from './transform'
+
+/**
+ * A labeled value in the main details list
+ */
+export interface DetailField {
+  label: string
+  value: string
+  metricValue?: string | null  // shown instead when the unit toggle is on cm
+  showUnknown: boolean         // render the value muted (it's a fallback)
+  correction?: FieldCorrection | null  // set when a curator overrode the value
+}
+
+/**
+ * A labeled, already-formatted additional field
+ */
+export interface AdditionalField {
+  key: keyof Item
+  label: string
+  value: string
+  correction: FieldCorrection | null  // set when a curator overrode the value
+}
+
+// Message keys of fields whose label key isn't "field.<Item key>"
+const FIELD_LABEL_KEYS: { [key in keyof Item]?: MessageKey } = {
+  id: 'field.objectId',
+  objectType: 'field.type',
+  accessionNumber: 'field.accession',
+}
+
+/**
+ * URL of an object's detail page
+ *
+ * @param id - Object ID
+ * @param locale - Locale of the page to link to (default locale → no prefix)
+ */
+export function objectPath(id: string, locale?: string): string {
+  return localePath(`/objects/${encodeURIComponent(id)}/`, locale)
+}
+
+/**
+ * URL of an object's card as an HTML fragment (with its dialog content), loaded by the grid on demand
+ *
+ * @param id - Object ID
+ * @param locale - Locale of the fragment (default locale → no prefix)
+ */
+export function cardPath(id: string, locale?: string): string {
+  return localePath(`/cards/${encodeURIComponent(id)}/`, locale)
+}
+
+/**
+ * Label of an Item field in a locale, e.g., ("objectType", "en") → "Type"
+ */
+export function fieldLabel(key: keyof Item, locale?: string): string {
+  return useTranslations(locale)(FIELD_LABEL_KEYS[key] ?? `field.${key}` as MessageKey)
+}
+
+/**
+ * Title for display, translating the transform's "Unknown Title" fallback
+ */
+export function displayTitle(item: Item, locale?: string): string {
+  return item.title === UNKNOWN_TITLE ? useTranslations(locale)('fallback.unknownTitle') : item.title
+}
+
+/**
+ * Helper to format field values
+ * Handles the various types that Item fields can contain
+ */
+export function formatValue(value: unknown): string | null {
+  if (value == null) return null
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : null
+  }
+  if (typeof value === 'object') {
+    // Handle nested objects like location, geo, series, edition
+    // Format as "key: value" pairs for better readability
+    const parts = Object.entries(value)
+      .filter(([_, v]) => v != null)
+      .map(([k, v]) => `${k}: ${v}`)
+    return parts.length > 0 ? parts.join(', ') : null
+  }
+  return String(value)
+}
+
+/**
+ * Creator display string
+ * e.g., "Charles Eames and Ray Eames" or "A, B and C" (uncertain names keep their "?")
+ *
+ * @param creators - Normalized creators
+ * @param locale - Locale for the final conjunction ("and", "y", ...)
+ */
+export function formatCreators(creators: Creator[], locale: string = DEFAULT_LOCALE): string | null {
+  const names = creators.map(c => c.uncertain ? `${c.name}?` : c.name)
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} ${useTranslations(locale)('list.and')} ${names[names.length - 1]}`
+    : names[0] ?? null
+}
+
+/**
+ * Date for display in a locale
+ *
+ * The default locale shows the curator's own wording ("c. 1938", "late 19th century").
+ * Other locales build the text from the structured values with their catalog's patterns
+ * ("ca. 1938", "década de 1950"), keeping the original wording when nothing was parsed.
+ * Months and days are only kept in the ISO display ("c. 2025-03", "1950-01-01 – 1950-03-02"),
+ * so they're read from there; anything that doesn't match the structured years keeps the display.
+ *
+ * @param date - Structured date (or null)
+ * @param locale - Locale to format for
+ */
+export function formatItemDate(date: ItemDate | null, locale: string = DEFAULT_LOCALE): string | null {
+  if (!date) return null
+  if (locale === DEFAULT_LOCALE || date.earliest == null) return date.display
+
+  const t = useTranslations(locale)
+  const { earliest, latest } = date
+  let text: string
+  if (date.precision === 'day' || date.precision === 'month') {
+    const isoDates = [...date.display.matchAll(/\b(\d{4})-(\d{2})(?:-(\d{2}))?\b/g)]
+    const years = [earliest, latest ?? earliest]
+    if (isoDates.length < 1 || isoDates.length > 2) return date.display
+    const parts = isoDates.map((match, i) => Number(match[1]) === years[i === 0 ? 0 : 1]
+      ? formatIsoDate(Number(match[1]), Number(match[2]), date.precision === 'day' ? Number(match[3]) : null, locale)
+      : null)
+    if (parts.some(part => part == null)) return date.display
+    const [start, end = start] = parts as string[]
+    text = start === end ? start : t('date.range', { start, end })
+  } else if (date.precision === 'decade' && latest === earliest + 9) {
+    text = t('date.decade', { decade: earliest })
+  } else if (latest != null && latest !== earliest) {
+    text = t('date.range', { start: earliest, end: latest })
+  } else {
+    text = String(earliest)
+  }
+  return date.approximate ? t('date.circa', { date: text }) : text
+}
+
+/**
+ * Localized month ("marzo de 2025") or day ("2 de marzo de 1950")
+ * Null for parts that aren't a real calendar date (NaN, month 13, February 30)
+ */
+function formatIsoDate(year: number, month: number, day: number | null, locale: string): string | null {
+  const value = new Date(Date.UTC(year, month - 1, day ?? 1))
+  if (Number.isNaN(value.getTime()) || value.getUTCMonth() !== month - 1 || value.getUTCDate() !== (day ?? 1)) {
+    return null
+  }
+  return new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: 'long',
+    ...(day != null && { day: 'numeric' }),
+    timeZone: 'UTC',
+  }).format(value)
+}
+
+/**
+ * Dimension wording from a locale's catalog, for formatDimensions
+ */
+function dimensionLabels(t: Translate): DimensionLabels {
+  const value = '{value}'
+  return {
+    axes: {
+      height: t('dimension.height', { value }),
+      width: t('dimension.width', { value }),
+      depth: t('dimension.depth', { value }),
+      length: t('dimension.length', { value }),
+      diameter: t('dimension.diameter', { value }),
+      wingspan: t('dimension.wingspan', { value }),
+    },
+    approximate: t('dimension.approximate'),
+  }
+}
+
+/**
+ * Main details shown on every card, with "Unknown" fallbacks
+ *
+ * @param item - Item to read from
+ * @param locale - Locale for labels and formatting
+ */
+export function getDetailFields(item: Item, locale: string = DEFAULT_LOCALE): DetailField[] {
+  const t = useTranslations(locale)
+  const unknown = t('fallback.unknown')
+  const labels = dimensionLabels(t)
+  const correction = (key: keyof Item) => item.corrections?.[key] ?? null
+  return [
+    { label: t('field.date'), value: formatItemDate(item.date, locale) || unknown, showUnknown: !item.date, correction: correction('date') },
+    { label: t('field.type'), value: item.objectType, showUnknown: false, correction: correction('objectType') },
+    { label: t('field.department'), value: item.department, showUnknown: false, correction: correction('department') },
+    { label: t('field.materials'), value: item.materials || unknown, showUnknown: !item.materials, correction: correction('materials') },
+    {
+      label: t('field.dimensions'),
+      value: formatDimensions(item.dimensions, 'imperial', locale, labels) || unknown,
+      metricValue: formatDimensions(item.dimensions, 'metric', locale, labels),
+      showUnknown: !item.dimensions,
+      correction: correction('dimensions'),
+    },
+    {
+      label: t('field.accession'),
+      value: item.accessionNumber || unknown,
+      showUnknown: !item.accessionNumber,
+      correction: correction('accessionNumber'),
+    },
+  ]
+}
+
+// Additional fields to display (only if present)
+// Some fields have custom format functions to display complex data nicely
+// Labels are message keys (see i18n.ts)
+const additionalFieldConfigs: { key: keyof Item; label: MessageKey; format?: (value: unknown) => string }[] = [
+  { key: 'keywords', label: 'field.keywords' },
+  { key: 'notes', label: 'field.notes' },
+  { key: 'externalIds', label: 'field.externalIds', format: (v: unknown) => Object.entries(v as Record<string, string>).map(([k, val]) => `${k}: ${val}`).join(', ') },
+  { key: 'description', label: 'field.description' },
+  { key: 'tags', label: 'field.tags' },
+  { key: 'creditLine', label: 'field.creditLine' },
+  { key: 'condition', label: 'field.condition' },
+  { key: 'location', label: 'field.location', format: (v: unknown) => formatLocation(v as Item['location']) },
+  { key: 'geo', label: 'field.geo' },
+  { key: 'series', label: 'field.series' },
+  { key: 'edition', label: 'field.edition' },
+  { key: 'rights', label: 'field.rights' },
+  { key: 'transcription', label: 'field.transcription' },
+  { key: 'status', label: 'field.status' },
+]
+
+/**
+ * Additional fields that have data, formatted for display
+ *
+ * @param item - Item to read from
+ * @param locale - Locale for labels
+ * @param exclude - Keys rendered elsewhere on the page
+ */
+export function getAdditionalFields(item: Item, locale: string = DEFAULT_LOCALE, exclude: (keyof Item)[] = []): AdditionalField[] {
+  const t = useTranslations(locale)
+  return additionalFieldConfigs
+    .filter(field => !exclude.includes(field.key))
+    .flatMap(field => {
+      const value = item[field.key]
+      // Only show fields that have data (non-null, non-empty arrays)
+      if (value == null || (Array.isArray(value) && value.length === 0)) {
+        return []
+      }
+      // Use custom format if provided, otherwise use default formatter
+      const formatted = field.format ? field.format(value) : formatValue(value)
+      return formatted
+        ? [{ key: field.key, label: t(field.label), value: formatted, correction: item.corrections?.[field.key] ?? null }]
+        : []
+    })
+}
+
+/**
+ * One field across several items, for side-by-side comparison
+ */
+export interface ComparisonRow {
+  label: string
+  values: (string | null)[]  // one per item, null when the item has no value
+  conflict: boolean          // the items don't all agree
+}
+
+/**
+ * Lines up the same fields of several items, marking the ones that differ
+ * Rows cover the card details plus every additional field any of the items has
+ *
+ * @param items - Items to compare, in column order
+ */
+export function compareItems(items: Item[]): ComparisonRow[] {
+  const byLabel = new Map<string, (string | null)[]>()
+  const setValue = (label: string, column: number, value: string | null) => {
+    const values = byLabel.get(label) ?? items.map(() => null)
+    values[column] = value
+    byLabel.set(label, values)
+  }
+
+  items.forEach((item, column) => {
+    setValue('Title', column, item.title)
+    setValue('Creator', column, formatCreators(item.creators))
+    getDetailFields(item).forEach(field => setValue(field.label, column, field.showUnknown ? null : field.value))
+  })
+  items.forEach((item, column) => {
+    getAdditionalFields(item).forEach(field => setValue(field.label, column, field.value))
+  })
+
+  return [...byLabel.entries()].map(([label, values]) => ({
+    label,
+    values,
+    conflict: new Set(values).size > 1,
+  }))
+}
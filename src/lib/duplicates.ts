@@ -0,0 +1,337 @@
+/**
+ * Duplicate Detection
+ *
+ * Scores pairs of transformed items that share a blocking key for signs that
+ * they describe the same object, and groups likely duplicates into clusters for review.
+ * Records flagged possible_duplicate in the source are always checked
+ * against a lower threshold, so the flag never goes unanswered.
+ */
+
+import { UNKNOWN_TITLE } from './transform'
+import type { Item } from '../types/item'
+import type { DuplicateCluster, DuplicatePair, DuplicateReport, DuplicateSignal, DuplicateSignalField } from '../types/duplicates'
+
+// Pairs scoring at least this are suggested as duplicates
+export const DUPLICATE_THRESHOLD = 0.75
+
+// Lower bar for pairs involving an item flagged possibleDuplicate
+export const FLAGGED_DUPLICATE_THRESHOLD = 0.5
+
+// Items sharing a blocking key are compared; keys shared by more items than this say too little to block on
+export const MAX_BLOCK_SIZE = 100
+
+// Share of the score each field contributes (renormalized over the fields both items have)
+const SIGNAL_WEIGHTS: { [field in DuplicateSignalField]: number } = {
+  title: 0.35,
+  accessionNumber: 0.2,
+  creators: 0.15,
+  date: 0.15,
+  externalIds: 0.15,
+}
+
+/**
+ * Finds candidate duplicate clusters in the collection
+ *
+ * Strategy:
+ * 1. Find candidate pairs: items sharing a title, title word, accession number base, external ID,
+ *    or creators and date (see blockingKeys) - comparing all pairs doesn't scale past a few thousand records.
+ *    Flagged items are paired on every key they have, however common
+ * 2. Score each candidate pair that isn't already related
+ *    (a set and its piece, or a print and its negative, are known to be distinct)
+ * 3. Keep pairs at or above DUPLICATE_THRESHOLD, or FLAGGED_DUPLICATE_THRESHOLD when either item is flagged
+ * 4. Join overlapping pairs into clusters (A~B and B~C puts A, B and C together)
+ * 5. Report flagged items that matched nothing, so a curator can clear the flag
+ *
+ * @param items - Transformed (and relation-resolved) items
+ * @returns Clusters (strongest first) and flagged items without a candidate
+ */
+export function detectDuplicates(items: Item[]): DuplicateReport {
+  const pairs: DuplicatePair[] = []
+  candidatePairs(items).forEach(([a, b]) => {
+    if (areRelated(a, b)) {
+      return
+    }
+    const pair = scorePair(a, b)
+    const threshold = isFlagged(a) || isFlagged(b) ? FLAGGED_DUPLICATE_THRESHOLD : DUPLICATE_THRESHOLD
+    if (pair.score >= threshold) {
+      pairs.push(pair)
+    }
+  })
+
+  const order = new Map(items.map((item, i) => [item.id, i]))
+  const flaggedIds = new Set(items.filter(isFlagged).map(item => item.id))
+
+  const clusters: DuplicateCluster[] = groupPairs(pairs).map(group => {
+    const ids = [...new Set(group.flatMap(pair => pair.ids))]
+      .sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0))
+    return {
+      ids,
+      pairs: group,
+      score: Math.max(...group.map(pair => pair.score)),
+      flagged: ids.filter(id => flaggedIds.has(id)),
+    }
+  })
+
+  const clustered = new Set(clusters.flatMap(cluster => cluster.ids))
+
+  return {
+    clusters: clusters.sort((a, b) => b.score - a.score),
+    unmatched: [...flaggedIds].filter(id => !clustered.has(id)),
+  }
+}
+
+/**
+ * Scores how likely two items are the same object
+ *
+ * @returns The pair with its weighted score and the signals behind it
+ */
+export function scorePair(a: Item, b: Item): DuplicatePair {
+  const signals = [
+    titleSignal(a, b),
+    accessionSignal(a, b),
+    creatorSignal(a, b),
+    dateSignal(a, b),
+    externalIdSignal(a, b),
+  ].filter((signal): signal is DuplicateSignal => signal != null)
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0)
+  const score = totalWeight > 0
+    ? signals.reduce((sum, signal) => sum + signal.similarity * signal.weight, 0) / totalWeight
+    : 0
+
+  return { ids: [a.id, b.id], score: round(score), signals }
+}
+
+/* ============================================================================
+ * SIGNALS - One per field; null when either item lacks the field
+ * ========================================================================= */
+
+function titleSignal(a: Item, b: Item): DuplicateSignal | null {
+  // The fallback title says nothing about the object
+  if (a.title === UNKNOWN_TITLE || b.title === UNKNOWN_TITLE) {
+    return null
+  }
+  const similarity = diceCoefficient(normalizeTitle(a.title), normalizeTitle(b.title))
+  return signal('title', similarity, `titles ${percent(similarity)} similar`)
+}
+
+function accessionSignal(a: Item, b: Item): DuplicateSignal | null {
+  if (!a.accessionNumber || !b.accessionNumber) {
+    return null
+  }
+  if (a.accessionNumber === b.accessionNumber) {
+    return signal('accessionNumber', 1, 'same accession number')
+  }
+  // "2016.9.1" and "2016.9.1-DUP" share a base number
+  if (accessionBase(a.accessionNumber) === accessionBase(b.accessionNumber)) {
+    return signal('accessionNumber', 0.9, 'accession numbers differ only by suffix')
+  }
+  return signal('accessionNumber', 0, 'different accession numbers')
+}
+
+function creatorSignal(a: Item, b: Item): DuplicateSignal | null {
+  const namesA = new Set(a.creators.map(creator => creator.name))
+  const namesB = new Set(b.creators.map(creator => creator.name))
+  if (namesA.size === 0 || namesB.size === 0) {
+    return null
+  }
+  const shared = [...namesA].filter(name => namesB.has(name)).length
+  const similarity = shared / new Set([...namesA, ...namesB]).size
+  return signal('creators', similarity, similarity === 1 ? 'same creators' : `${shared} creator(s) in common`)
+}
+
+function dateSignal(a: Item, b: Item): DuplicateSignal | null {
+  if (a.date?.earliest == null || a.date.latest == null || b.date?.earliest == null || b.date.latest == null) {
+    return null
+  }
+  const overlaps = a.date.earliest <= b.date.latest && b.date.earliest <= a.date.latest
+  return signal('date', overlaps ? 1 : 0, overlaps ? 'date ranges overlap' : 'date ranges don\'t overlap')
+}
+
+function externalIdSignal(a: Item, b: Item): DuplicateSignal | null {
+  const idsA = a.externalIds ?? {}
+  const idsB = b.externalIds ?? {}
+  const shared = Object.keys(idsA).filter(key => key in idsB)
+  if (shared.length === 0) {
+    return null
+  }
+  const matching = shared.filter(key => idsA[key] === idsB[key])
+  const similarity = matching.length / shared.length
+  return signal('externalIds', similarity, matching.length > 0
+    ? `same ${matching.join(', ')} ID`
+    : `different ${shared.join(', ')} ID`)
+}
+
+/* ============================================================================
+ * BLOCKING - Which pairs are worth scoring
+ * ========================================================================= */
+
+/**
+ * Pairs of items that share at least one blocking key, each pair once, in collection order
+ * Keys shared by more than MAX_BLOCK_SIZE items are skipped, except for pairs with a flagged item
+ */
+function candidatePairs(items: Item[]): [Item, Item][] {
+  const blocks = new Map<string, number[]>()
+  items.forEach((item, i) => {
+    blockingKeys(item).forEach(key => {
+      const block = blocks.get(key)
+      if (block) block.push(i)
+      else blocks.set(key, [i])
+    })
+  })
+
+  const seen = new Set<number>()
+  const pairs: [number, number][] = []
+  const addPair = (i: number, j: number) => {
+    const [first, second] = i < j ? [i, j] : [j, i]
+    const key = first * items.length + second
+    if (!seen.has(key)) {
+      seen.add(key)
+      pairs.push([first, second])
+    }
+  }
+
+  blocks.forEach(block => {
+    if (block.length <= MAX_BLOCK_SIZE) {
+      block.forEach((i, at) => block.slice(at + 1).forEach(j => addPair(i, j)))
+    } else {
+      // Too common to block on - except for flagged items, which are always checked
+      block.filter(i => isFlagged(items[i])).forEach(i => block.forEach(j => {
+        if (j !== i) addPair(i, j)
+      }))
+    }
+  })
+
+  return pairs
+    .sort((x, y) => x[0] - y[0] || x[1] - y[1])
+    .map(([i, j]) => [items[i], items[j]])
+}
+
+/**
+ * Keys a likely duplicate shares with the item - any one is enough to compare them
+ * Title words find reworded titles, but a common word says too little to block on (see MAX_BLOCK_SIZE),
+ * so the whole title and the creators with the date are keys as well. Items with the fallback
+ * title only block on creators and date, since that's most of their score
+ */
+function blockingKeys(item: Item): string[] {
+  const keys: string[] = []
+  if (item.title !== UNKNOWN_TITLE) {
+    const title = normalizeTitle(item.title)
+    keys.push(`title:${title}`, ...[...new Set(title.split(' ').filter(Boolean))].map(word => `word:${word}`))
+  }
+  if (item.title === UNKNOWN_TITLE || item.creators.length > 0 || item.date?.earliest != null) {
+    keys.push(`made:${item.creators.map(creator => creator.name).sort().join('|')}:${item.date?.earliest}-${item.date?.latest}`)
+  }
+
+  if (item.accessionNumber) keys.push(`accession:${accessionBase(item.accessionNumber)}`)
+  Object.entries(item.externalIds ?? {}).forEach(([system, id]) => keys.push(`external:${system}:${id}`))
+  return keys
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+function isFlagged(item: Item): boolean {
+  return item.flags?.possibleDuplicate === true
+}
+
+function signal(field: DuplicateSignalField, similarity: number, detail: string): DuplicateSignal {
+  return { field, similarity: round(similarity), weight: SIGNAL_WEIGHTS[field], detail }
+}
+
+/**
+ * Whether either item already links to the other
+ */
+function areRelated(a: Item, b: Item): boolean {
+  return a.related.some(rel => rel.objectId === b.id) || b.related.some(rel => rel.objectId === a.id)
+}
+
+/**
+ * Lowercases, strips diacritics, and reduces punctuation to single spaces
+ * e.g., "Toy Boat (“Providence”)" → "toy boat providence"
+ */
+function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+/**
+ * Sørensen–Dice similarity of two strings' character bigrams (0 to 1)
+ * Tolerant of small spelling and word-order differences
+ */
+function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const bigrams = (text: string) => {
+    const counts = new Map<string, number>()
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.slice(i, i + 2)
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1)
+    }
+    return counts
+  }
+
+  const bigramsA = bigrams(a)
+  const bigramsB = bigrams(b)
+  let overlap = 0
+  bigramsA.forEach((count, bigram) => {
+    overlap += Math.min(count, bigramsB.get(bigram) ?? 0)
+  })
+  return (2 * overlap) / (a.length - 1 + b.length - 1)
+}
+
+/**
+ * Accession number without a trailing letter suffix ("-DUP", "-A")
+ */
+function accessionBase(accession: string): string {
+  return accession.replace(/-[A-Z]+$/i, '')
+}
+
+/**
+ * Merges pairs that share an item into connected groups
+ * Union-find over the item ids, so each pair costs about the same however many groups there are
+ */
+function groupPairs(pairs: DuplicatePair[]): DuplicatePair[][] {
+  const parent = new Map<string, string>()
+  const find = (id: string): string => {
+    let root = id
+    for (let up = parent.get(root); up != null; up = parent.get(root)) root = up
+    // Point everything on the way straight at the root, so later lookups are short
+    let next = id
+    while (next !== root) {
+      const up = parent.get(next) ?? root
+      parent.set(next, root)
+      next = up
+    }
+    return root
+  }
+  pairs.forEach(({ ids: [a, b] }) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootA, rootB)
+  })
+
+  // Groups come out in the order of their first pair, each pair in input order
+  const groups = new Map<string, DuplicatePair[]>()
+  pairs.forEach(pair => {
+    const root = find(pair.ids[0])
+    const group = groups.get(root)
+    if (group) group.push(pair)
+    else groups.set(root, [pair])
+  })
+  return [...groups.values()]
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
@@ -0,0 +1,115 @@
+/**
+ * Collection Exports
+ *
+ * Serializes normalized Items for use outside the site: CSV with flattened
+ * columns for spreadsheets, JSON Lines for data pipelines, and Linked Art
+ * JSON-LD (see linked-art.ts) for partner institutions and aggregators.
+ * The endpoints under /src/pages/exports/ write these files at build time.
+ */
+
+import type { DimensionAxis, Item } from '../types/item'
+import { formatCreators, formatValue } from './display'
+import { toLinkedArt } from './linked-art'
+
+/**
+ * One CSV column: header plus how to read its value from an Item
+ */
+interface CsvColumn {
+  header: string
+  value: (item: Item) => string | number | boolean | null
+}
+
+// Multi-valued cells are joined with this (commas already appear inside values)
+const LIST_SEPARATOR = '; '
+
+const dimensionColumn = (axis: DimensionAxis): CsvColumn => ({
+  header: `${axis}_cm`,
+  value: item => {
+    const value = item.dimensions?.values[axis]
+    return value == null ? null : Math.round(value * 10) / 10
+  },
+})
+
+/**
+ * Flattened columns, in output order
+ * Structured fields are split into one column per part (date_earliest, height_cm, ...)
+ */
+const CSV_COLUMNS: CsvColumn[] = [
+  { header: 'object_id', value: item => item.id },
+  { header: 'accession_number', value: item => item.accessionNumber },
+  { header: 'title', value: item => item.title },
+  { header: 'creators', value: item => item.creators.map(creator => creator.name).join(LIST_SEPARATOR) || null },
+  { header: 'creator_display', value: item => formatCreators(item.creators) },
+  { header: 'date_display', value: item => item.date?.display ?? null },
+  { header: 'date_earliest', value: item => item.date?.earliest ?? null },
+  { header: 'date_latest', value: item => item.date?.latest ?? null },
+  { header: 'date_precision', value: item => item.date?.precision ?? null },
+  { header: 'date_approximate', value: item => item.date?.approximate ?? null },
+  { header: 'object_type', value: item => item.objectType },
+  { header: 'department', value: item => item.department },
+  { header: 'materials', value: item => item.materials },
+  { header: 'dimensions_display', value: item => item.dimensions?.display ?? null },
+  dimensionColumn('height'),
+  dimensionColumn('width'),
+  dimensionColumn('depth'),
+  dimensionColumn('length'),
+  dimensionColumn('diameter'),
+  dimensionColumn('wingspan'),
+  { header: 'dimensions_descriptive', value: item => item.dimensions?.descriptive ?? null },
+  { header: 'flags', value: item => Object.keys(item.flags ?? {}).join(LIST_SEPARATOR) || null },
+  { header: 'related', value: item => item.related.map(rel => `${rel.type}:${rel.objectId ?? rel.slug}`).join(LIST_SEPARATOR) || null },
+  { header: 'keywords', value: item => item.keywords?.join(LIST_SEPARATOR) ?? null },
+  { header: 'tags', value: item => item.tags?.join(LIST_SEPARATOR) ?? null },
+  { header: 'description', value: item => item.description },
+  { header: 'credit_line', value: item => item.creditLine },
+  { header: 'rights', value: item => item.rights },
+  { header: 'external_ids', value: item => formatValue(item.externalIds) },
+  { header: 'location_site', value: item => item.location?.site ?? null },
+  { header: 'location_room', value: item => item.location?.room ?? null },
+  { header: 'location_shelf', value: item => item.location?.shelf ?? null },
+  { header: 'inventory_location', value: item => item.location?.code ?? null },
+  { header: 'status', value: item => item.status },
+]
+
+/**
+ * Collection as CSV (RFC 4180: comma-separated, CRLF line endings, quoted where needed)
+ *
+ * @param items - Items to export, one row each
+ * @returns CSV text with a header row
+ */
+export function toCsv(items: Item[]): string {
+  const rows = [
+    CSV_COLUMNS.map(column => column.header),
+    ...items.map(item => CSV_COLUMNS.map(column => formatCell(column.value(item)))),
+  ]
+  return rows.map(row => row.map(quoteCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Collection as JSON Lines - one complete Item per line
+ */
+export function toJsonLines(items: Item[]): string {
+  return items.map(item => JSON.stringify(item)).join('\n') + '\n'
+}
+
+/**
+ * Collection as a JSON-LD array of Linked Art documents
+ */
+export function toLinkedArtJson(items: Item[]): string {
+  return JSON.stringify(items.map(toLinkedArt), null, 2)
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+function formatCell(value: string | number | boolean | null): string {
+  return value == null ? '' : String(value)
+}
+
+/**
+ * Quotes a cell if it contains a comma, quote or line break (quotes are doubled)
+ */
+function quoteCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+}
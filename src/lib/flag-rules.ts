@@ -0,0 +1,116 @@
+/**
+ * Inferred Flag Rules
+ *
+ * The export only sets flags a curator remembered to tick. These rules look
+ * at the normalized Item and add the flags its data implies, recording that
+ * they were inferred (and why) so they can be shown differently from
+ * curator-set flags.
+ *
+ * To add a rule, append to FLAG_RULES and add its message to the catalogs in
+ * /src/data/i18n - nothing else needs to change.
+ */
+
+import type { FlagOrigins, Item, ItemFlags } from '../types/item'
+import type { MessageKey } from './i18n'
+
+/**
+ * A rule that sets one flag when its test passes
+ */
+export interface FlagRule {
+  flag: keyof ItemFlags
+  reason: string                    // recorded on flagOrigins and the audit trail, e.g., "No dimensions recorded"
+  message: MessageKey               // the reason as shown with the inferred badge, in the page's locale
+  test: (item: Item) => boolean
+}
+
+/**
+ * Rules applied to every item, in order
+ * When several rules set the same flag, the first matching reason is kept
+ */
+export const FLAG_RULES: FlagRule[] = [
+  {
+    flag: 'missingDimensions',
+    reason: 'No dimensions recorded',
+    message: 'flagRule.noDimensions',
+    test: item => item.dimensions == null,
+  },
+  {
+    flag: 'attributionUncertain',
+    reason: 'No creator recorded',
+    message: 'flagRule.noCreator',
+    test: item => item.creators.length === 0,
+  },
+  {
+    flag: 'attributionUncertain',
+    reason: 'Creator marked uncertain ("?")',
+    message: 'flagRule.creatorUncertain',
+    test: item => item.creators.some(creator => creator.uncertain),
+  },
+  {
+    flag: 'needsResearch',
+    reason: 'Date is unknown',
+    message: 'flagRule.dateUnknown',
+    test: item => item.date == null,
+  },
+  {
+    flag: 'needsReview',
+    reason: 'Date could not be parsed',
+    message: 'flagRule.dateUnparsed',
+    test: item => item.date != null && (item.date.earliest == null || item.date.latest == null),
+  },
+  {
+    flag: 'materialsIncomplete',
+    reason: 'No materials recorded',
+    message: 'flagRule.noMaterials',
+    test: item => item.materials == null,
+  },
+]
+
+/**
+ * Message key of an inferred flag's reason, or null for a reason no rule gives
+ */
+export function reasonMessage(reason: string | null): MessageKey | null {
+  return FLAG_RULES.find(rule => rule.reason === reason)?.message ?? null
+}
+
+/**
+ * Adds inferred flags to an item
+ *
+ * Strategy:
+ * 1. Mark every flag already on the item as coming from the export
+ * 2. Run each rule; a matching rule sets its flag unless the export (or an earlier rule) already did
+ * 3. Keep flags and flagOrigins null when nothing is set, like normalizeFlags does
+ *
+ * @param item - Normalized item (flags from the export only)
+ * @param onInferred - Called for each flag a rule adds (used for the audit trail)
+ * @param rules - Rules to apply (defaults to FLAG_RULES)
+ * @returns New item with merged flags and their origins (does not mutate input)
+ */
+export function inferFlags(
+  item: Item,
+  onInferred?: (flag: keyof ItemFlags, reason: string) => void,
+  rules: FlagRule[] = FLAG_RULES,
+): Item {
+  const flags: ItemFlags = { ...item.flags }
+  const origins: FlagOrigins = {}
+
+  Object.keys(flags).forEach(flag => {
+    origins[flag as keyof ItemFlags] = { source: 'export', reason: null }
+  })
+
+  rules.forEach(rule => {
+    if (flags[rule.flag] || !rule.test(item)) {
+      return
+    }
+    flags[rule.flag] = true
+    origins[rule.flag] = { source: 'inferred', reason: rule.reason }
+    onInferred?.(rule.flag, rule.reason)
+  })
+
+  const hasFlags = Object.keys(flags).length > 0
+  return {
+    ...item,
+    flags: hasFlags ? flags : null,
+    flagOrigins: hasFlags ? origins : null,
+  }
+}
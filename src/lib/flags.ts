@@ -0,0 +1,24 @@
+/**
+ * Flag Display Configuration
+ *
+ * Labels, badge styles and icons for each ItemFlags key, shared by the cards
+ * and the collection filters. The icon gives every badge a cue besides its
+ * color (WCAG 1.4.1).
+ */
+
+// 'as const' makes this array readonly and narrows types to literal values
+// Without it: key would be type 'string', with it: key is 'possibleDuplicate' | 'prototype' | ...
+export const flagConfigs = [
+  { key: 'possibleDuplicate', label: 'Possible Duplicate', className: 'duplicate', icon: '⧉' },
+  { key: 'prototype', label: 'Prototype', className: 'prototype', icon: '⚙' },
+  { key: 'needsResearch', label: 'Needs Research', className: 'research', icon: '?' },
+  { key: 'needsReview', label: 'Needs Review', className: 'review', icon: '✎' },
+  { key: 'attributionUncertain', label: 'Attribution Uncertain', className: 'uncertain', icon: '≈' },
+  { key: 'materialsIncomplete', label: 'Materials Incomplete', className: 'incomplete', icon: '◐' },
+  { key: 'missingDimensions', label: 'Missing Dimensions', className: 'missing', icon: '↔' },
+] as const
+
+// Icon of the "Invalid Data" badge for records that failed validation
+export const INVALID_ICON = '⚠'
+
+export type FlagKey = typeof flagConfigs[number]['key']
@@ -0,0 +1,97 @@
+/**
+ * Internationalization
+ *
+ * Message catalogs live in /src/data/i18n, one JSON file per locale
+ * (en.json, es.json, ...). Adding a language means adding a catalog - the
+ * Astro config reads the same directory to set up locale-prefixed routes, and
+ * components only ever ask for message keys.
+ *
+ * English is the default locale: its pages have no prefix (/objects/EI-0001/),
+ * every other locale's do (/es/objects/EI-0001/). Keys missing from a
+ * catalog fall back to English.
+ */
+
+import type en from '../data/i18n/en.json'
+
+/**
+ * Every message key (en.json is the reference catalog)
+ */
+export type MessageKey = keyof typeof en
+
+/**
+ * Values substituted into a message, e.g., { count: 3 } for "Duplicate review ({count})"
+ */
+export type MessageParams = { [name: string]: string | number }
+
+/**
+ * Looks up a message in one locale
+ */
+export type Translate = (key: MessageKey, params?: MessageParams) => string
+
+export const DEFAULT_LOCALE = 'en'
+
+const catalogs: { [locale: string]: { [key: string]: string } } = Object.fromEntries(
+  Object.entries(import.meta.glob<{ [key: string]: string }>('../data/i18n/*.json', { eager: true, import: 'default' }))
+    .map(([path, messages]) => [path.replace(/^.*\/|\.json$/g, ''), messages]),
+)
+
+/**
+ * Every locale with a catalog, default first
+ */
+export const LOCALES: string[] = [
+  DEFAULT_LOCALE,
+  ...Object.keys(catalogs).filter(locale => locale !== DEFAULT_LOCALE).sort(),
+]
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Returns a translate function for a locale
+ *
+ * @param locale - Locale code, e.g., Astro.currentLocale (unknown or missing → default locale)
+ * @returns t(key, params) - the message with {placeholders} filled in
+ */
+export function useTranslations(locale: string | undefined): Translate {
+  const messages = catalogs[resolveLocale(locale)] ?? {}
+  const fallback = catalogs[DEFAULT_LOCALE] ?? {}
+
+  return (key, params = {}) => {
+    const message = messages[key] ?? fallback[key] ?? key
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      params[name] != null ? String(params[name]) : placeholder)
+  }
+}
+
+/**
+ * A supported locale code, falling back to the default locale
+ */
+export function resolveLocale(locale: string | undefined): string {
+  return locale && LOCALES.includes(locale) ? locale : DEFAULT_LOCALE
+}
+
+/**
+ * Prefixes a site path with the locale (the default locale has no prefix)
+ * e.g., ("/objects/EI-0001/", "es") → "/es/objects/EI-0001/"
+ */
+export function localePath(path: string, locale: string | undefined): string {
+  const resolved = resolveLocale(locale)
+  return resolved === DEFAULT_LOCALE ? path : `/${resolved}${path}`
+}
+
+/**
+ * Strips the locale prefix from a site path, e.g., "/es/objects/EI-0001/" → "/objects/EI-0001/"
+ */
+export function unlocalizedPath(path: string): string {
+  const [, first, ...rest] = path.split('/')
+  return LOCALES.includes(first) && first !== DEFAULT_LOCALE ? `/${rest.join('/')}` : path
+}
+
+/**
+ * getStaticPaths params for pages under /src/pages/[...locale]
+ * The default locale's pages have no prefix, so its param is undefined
+ */
+export function localeParams(): { locale: string | undefined }[] {
+  return LOCALES.map(locale => ({ locale: locale === DEFAULT_LOCALE ? undefined : locale }))
+}
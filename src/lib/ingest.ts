@@ -0,0 +1,98 @@
+/**
+ * Ingest Layer
+ *
+ * Reads each configured source (see `sources` in config.ts) with the adapter
+ * for its format, producing the shared raw export shape that validation and
+ * normalization work on, one record at a time. Adding a source system means writing one adapter in
+ * /src/lib/adapters and registering it here.
+ */
+
+import { createReadStream } from 'node:fs'
+import { resolve } from 'node:path'
+import type { RawExportStream, SourceAdapter, SourceConfig, SourceFormat } from '../types/ingest'
+import { jsonAdapter } from './adapters/json'
+import { csvAdapter } from './adapters/csv'
+import { emuseumAdapter } from './adapters/emuseum'
+
+const ADAPTERS: { [format in SourceFormat]: SourceAdapter } = {
+  'json': jsonAdapter,
+  'csv': csvAdapter,
+  'emuseum-xml': emuseumAdapter,
+}
+
+// Absolute path of /src/data, fixed at build time (see astro.config.mjs) rather than taken from the working directory
+const DATA_DIR: string = import.meta.env.DATA_DIR
+
+// Raw text of every data file, loaded only when a source asks for it
+// In a real application, sources would be fetched from each system's API instead
+const dataFiles = import.meta.glob<string>('../data/**/*.{json,csv,xml}', { query: '?raw', import: 'default' })
+
+/**
+ * Reads one source into the shared raw export shape, record by record
+ * Streamed sources are parsed as their records are read; bundled ones are parsed whole first
+ *
+ * @param source - Configured source
+ * @returns Untrusted records and envelope - check each record with createExportValidator next
+ * @throws If the file doesn't exist or can't be parsed at all (streamed sources throw while their records are read)
+ */
+export async function readSource(source: SourceConfig): Promise<RawExportStream> {
+  if (source.stream) {
+    return streamSource(source)
+  }
+
+  const load = dataFiles[`../data/${source.path}`]
+  if (!load) {
+    throw new Error(`Source "${source.id}": file not found: src/data/${source.path}`)
+  }
+
+  const text = await load()
+  try {
+    const { meta, records } = ADAPTERS[source.format].parse(text, source)
+    return {
+      records: fromArray(Array.isArray(records) ? records : []),
+      envelope: () => ({ meta, records: Array.isArray(records) ? [] : records }),
+    }
+  } catch (e) {
+    throw new Error(`Source "${source.id}": could not read ${source.format} (${e instanceof Error ? e.message : e})`)
+  }
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Reads a streamed source from disk, so the export is never bundled or held as one string
+ * Paths are relative to /src/data like bundled sources, or absolute
+ */
+function streamSource(source: SourceConfig): RawExportStream {
+  const adapter = ADAPTERS[source.format]
+  if (!adapter.parseStream) {
+    throw new Error(`Source "${source.id}": ${source.format} sources can't be streamed`)
+  }
+
+  const path = resolve(DATA_DIR, source.path)
+  const stream = adapter.parseStream(createReadStream(path, { encoding: 'utf8' }), source)
+  return { ...stream, records: withSourceErrors(stream.records, source, path) }
+}
+
+/**
+ * Yields the records of a parsed export one at a time, like a streamed one
+ */
+async function* fromArray(records: unknown[]): AsyncGenerator<unknown> {
+  yield* records
+}
+
+/**
+ * Passes records through, naming the source and file in any error reading them
+ */
+async function* withSourceErrors(records: AsyncIterable<unknown>, source: SourceConfig, path: string): AsyncGenerator<unknown> {
+  try {
+    yield* records
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Source "${source.id}": file not found: ${path}`)
+    }
+    throw new Error(`Source "${source.id}": could not read ${source.format} (${e instanceof Error ? e.message : e})`)
+  }
+}
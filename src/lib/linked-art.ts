@@ -0,0 +1,215 @@
+/**
+ * Linked Art Export
+ *
+ * Maps normalized Items to Linked Art (CIDOC-CRM) JSON-LD documents for
+ * partner institutions and aggregators. Every object and creator gets a
+ * stable URI built from linkedDataBaseUri, so re-exports keep the same IDs.
+ *
+ * Vocabulary terms use Getty AAT IDs where Linked Art prescribes one;
+ * object types and materials have no vocabulary mapping yet, so they are
+ * exported as labels only.
+ */
+
+import type { Creator, Item, DimensionAxis } from '../types/item'
+import type {
+  LinkedArtActor,
+  LinkedArtDimension,
+  LinkedArtIdentifier,
+  LinkedArtObject,
+  LinkedArtProduction,
+  LinkedArtStatement,
+  LinkedArtType,
+} from '../types/linked-art'
+import { linkedDataBaseUri } from '../config'
+import { isGroup } from './creators'
+
+const LINKED_ART_CONTEXT = 'https://linked.art/ns/v1/linked-art.json'
+
+/* ============================================================================
+ * VOCABULARY - Getty AAT terms used by the Linked Art model
+ * ========================================================================= */
+
+const aat = (id: string, label: string, type: LinkedArtType['type'] = 'Type'): LinkedArtType => ({
+  id: `http://vocab.getty.edu/aat/${id}`,
+  type,
+  _label: label,
+})
+
+const TERMS = {
+  primaryName: aat('300404670', 'Primary Name'),
+  accessionNumber: aat('300312355', 'Accession Number'),
+  systemNumber: aat('300435704', 'System-Assigned Number'),
+  description: aat('300435416', 'Description'),
+  materialStatement: aat('300435429', 'Material Statement'),
+  dimensionStatement: aat('300435430', 'Dimension Statement'),
+  creditLine: aat('300435418', 'Credit Line'),
+  rightsStatement: aat('300435434', 'Copyright/License Statement'),
+  possibly: aat('300435722', 'Possibly'),
+  centimeters: aat('300379098', 'centimeters', 'MeasurementUnit'),
+}
+
+// Dimension axes - wingspan has no AAT term, so it's exported with a label only
+const AXIS_TERMS: { [axis in DimensionAxis]: LinkedArtType } = {
+  height: aat('300055644', 'Height'),
+  width: aat('300055647', 'Width'),
+  depth: aat('300072633', 'Depth'),
+  length: aat('300055645', 'Length'),
+  diameter: aat('300055624', 'Diameter'),
+  wingspan: { type: 'Type', _label: 'Wingspan' },
+}
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Stable URI of an object
+ */
+export function objectUri(id: string): string {
+  return `${linkedDataBaseUri}object/${encodeURIComponent(id)}`
+}
+
+/**
+ * Converts one Item to a Linked Art HumanMadeObject
+ *
+ * Strategy:
+ * 1. Names and identifiers: title, accession number and object_id
+ * 2. Statements: description, materials, dimension display, credit line, rights
+ * 3. Production: date range as a TimeSpan; certain creators as carried_out_by,
+ *    uncertain ones ("?") as a "possibly" attribute assignment
+ * 4. Structured values: dimensions in centimeters, materials, "part-of" relations
+ *
+ * @param item - Normalized (and relation-resolved) item
+ * @returns JSON-LD document (empty properties are left out)
+ */
+export function toLinkedArt(item: Item): LinkedArtObject {
+  const identifiers: LinkedArtIdentifier[] = [
+    { type: 'Name', content: item.title, classified_as: [TERMS.primaryName] },
+    { type: 'Identifier', content: item.id, classified_as: [TERMS.systemNumber] },
+  ]
+  if (item.accessionNumber) {
+    identifiers.push({ type: 'Identifier', content: item.accessionNumber, classified_as: [TERMS.accessionNumber] })
+  }
+
+  const statements: LinkedArtStatement[] = [
+    statement(item.description, TERMS.description),
+    statement(item.materials, TERMS.materialStatement),
+    statement(item.dimensions?.display ?? item.dimensions?.descriptive ?? null, TERMS.dimensionStatement),
+    statement(item.creditLine, TERMS.creditLine),
+    statement(item.rights, TERMS.rightsStatement),
+  ].filter((value): value is LinkedArtStatement => value != null)
+
+  const partOf = item.related
+    .filter(rel => rel.type === 'part-of' && !rel.broken && rel.objectId)
+    .map(rel => ({ id: objectUri(rel.objectId as string), type: 'HumanMadeObject' as const, _label: rel.title }))
+
+  return {
+    '@context': LINKED_ART_CONTEXT,
+    id: objectUri(item.id),
+    type: 'HumanMadeObject',
+    _label: item.title,
+    classified_as: [{ type: 'Type', _label: item.objectType }],
+    identified_by: identifiers,
+    ...optional('referred_to_by', statements.length > 0 ? statements : null),
+    ...optional('produced_by', production(item)),
+    ...optional('made_of', materials(item)),
+    ...optional('dimension', dimensions(item)),
+    ...optional('part_of', partOf.length > 0 ? partOf : null),
+  }
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+function statement(content: string | null, classification: LinkedArtType): LinkedArtStatement | null {
+  return content ? { type: 'LinguisticObject', content, classified_as: [classification] } : null
+}
+
+/**
+ * Production event with timespan and creators (null when neither is known)
+ */
+function production(item: Item): LinkedArtProduction | null {
+  const result: LinkedArtProduction = { type: 'Production' }
+
+  if (item.date) {
+    result.timespan = {
+      type: 'TimeSpan',
+      identified_by: [{ type: 'Name', content: item.date.display }],
+      ...(item.date.earliest != null && { begin_of_the_begin: `${formatYear(item.date.earliest)}-01-01T00:00:00Z` }),
+      ...(item.date.latest != null && { end_of_the_end: `${formatYear(item.date.latest)}-12-31T23:59:59Z` }),
+    }
+  }
+
+  const certain = item.creators.filter(creator => !creator.uncertain).map(actor)
+  const uncertain = item.creators.filter(creator => creator.uncertain).map(actor)
+  if (certain.length > 0) {
+    result.carried_out_by = certain
+  }
+  if (uncertain.length > 0) {
+    result.assigned_by = [{
+      type: 'AttributeAssignment',
+      classified_as: [TERMS.possibly],
+      assigned_property: 'carried_out_by',
+      assigned: uncertain,
+    }]
+  }
+
+  return Object.keys(result).length > 1 ? result : null
+}
+
+/**
+ * Person or Group with a stable URI derived from the canonical name
+ */
+function actor(creator: Creator): LinkedArtActor {
+  const group = isGroup(creator.name)
+  const slug = creator.name
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  return {
+    id: `${linkedDataBaseUri}${group ? 'group' : 'person'}/${slug}`,
+    type: group ? 'Group' : 'Person',
+    _label: creator.name,
+  }
+}
+
+/**
+ * Materials as labeled Material entries (null when unknown)
+ */
+function materials(item: Item): LinkedArtType[] | null {
+  return item.materials
+    ? item.materials.split(/,\s*/).map(label => ({ type: 'Material', _label: label }))
+    : null
+}
+
+/**
+ * One Dimension per measured axis, in centimeters (null when nothing was measured)
+ */
+function dimensions(item: Item): LinkedArtDimension[] | null {
+  const values = Object.entries(item.dimensions?.values ?? {}) as [DimensionAxis, number][]
+  return values.length > 0
+    ? values.map(([axis, value]) => ({
+        type: 'Dimension',
+        value: Math.round(value * 10) / 10,
+        unit: TERMS.centimeters,
+        classified_as: [AXIS_TERMS[axis]],
+      }))
+    : null
+}
+
+/**
+ * ISO 8601 year (at least four digits)
+ */
+function formatYear(year: number): string {
+  return String(year).padStart(4, '0')
+}
+
+/**
+ * Spreads { key: value } only when value isn't null
+ */
+function optional<K extends string, V>(key: K, value: V | null): { [key in K]?: V } {
+  return value == null ? {} : { [key]: value } as { [key in K]: V }
+}
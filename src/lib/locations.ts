@@ -0,0 +1,290 @@
+/**
+ * Storage Locations
+ *
+ * Merges the two ways exports record where an object is stored - a location
+ * object ({ site, shelf }) and an inventory location ID - into one
+ * site → room → shelf location, and groups objects by location for the
+ * location browser and for pick lists.
+ *
+ * Inventory location IDs are looked up in the location authority in
+ * /src/data/locations.json. Spreadsheets sometimes write the location out
+ * instead, e.g., "Archive > Vault B > F-12", which is read level by level.
+ */
+
+import authority from '../data/locations.json'
+import type { Item } from '../types/item'
+import type { AuthorityLocation, LocationLevel, LocationNode, LocationTree, PickList, PickListEntry, PickListGroup, StorageLocation } from '../types/location'
+
+const LOCATIONS: { [id: string]: AuthorityLocation } = authority
+
+// Separators between levels in a location written out as text
+const PATH_SEPARATOR = /\s*(?:>|›|\/|\|)\s*/
+
+// Separator between levels when a location is shown as text
+const DISPLAY_SEPARATOR = ' › '
+
+// Pick list group for objects with no usable location
+const NO_LOCATION_LABEL = 'No location recorded'
+
+const LEVELS: LocationLevel[] = ['site', 'room', 'shelf']
+
+/* ============================================================================
+ * PUBLIC API - Resolving locations
+ * ========================================================================= */
+
+/**
+ * Reads an exported inventory location
+ *
+ * Strategy:
+ * 1. An ID the location authority knows → its site, room and shelf
+ * 2. Text with separators ("Archive > Vault B > F-12") → site, room, shelf in that order;
+ *    two levels are a site and a shelf, as in the location object
+ * 3. Anything else → kept as an unresolved code (site, room and shelf null)
+ *
+ * @param value - inventory_location from the export
+ * @returns The location; code is the exported ID (null when the location was written out)
+ */
+export function lookupLocation(value: number | string): StorageLocation {
+  const code = String(value).trim()
+  const known = LOCATIONS[code]
+  if (known) {
+    return { site: known.site, room: known.room ?? null, shelf: known.shelf ?? null, code }
+  }
+
+  const parts = code.split(PATH_SEPARATOR).filter(Boolean)
+  if (parts.length === 2) {
+    return { site: parts[0], room: null, shelf: parts[1], code: null }
+  }
+  if (parts.length > 2) {
+    return { site: parts[0], room: parts[1], shelf: parts.slice(2).join(DISPLAY_SEPARATOR), code: null }
+  }
+  return { site: null, room: null, shelf: null, code }
+}
+
+/**
+ * Whether a location object and an inventory location can describe the same place
+ * They disagree when both name a site, or both name a shelf, and the names differ
+ */
+export function locationsAgree(placed: { site: string | null; shelf: string | null }, inventory: StorageLocation): boolean {
+  const differs = (a: string | null, b: string | null) => a != null && b != null && !sameName(a, b)
+  return !differs(placed.site, inventory.site) && !differs(placed.shelf, inventory.shelf)
+}
+
+/**
+ * Merges a location object and an inventory location into one location
+ *
+ * Strategy:
+ * 1. The location object's site and shelf win - it is where the registrar last put the object
+ * 2. The inventory location fills in the levels the object leaves out, unless the two disagree
+ *    (see locationsAgree), in which case only its code is kept
+ * 3. A site and shelf with no room get the room the authority lists for that shelf
+ *
+ * @param placed - Location object from the export (null if none)
+ * @param inventory - Inventory location from lookupLocation (null if none)
+ * @returns The merged location, or null when neither says anything
+ */
+export function mergeLocation(
+  placed: { site: string | null; shelf: string | null } | null,
+  inventory: StorageLocation | null,
+): StorageLocation | null {
+  const fill = inventory && (!placed || locationsAgree(placed, inventory)) ? inventory : null
+
+  const site = placed?.site ?? fill?.site ?? null
+  const shelf = placed?.shelf ?? fill?.shelf ?? null
+  const location: StorageLocation = {
+    site,
+    room: fill?.room ?? (site && shelf ? authorityRoom(site, shelf) : null),
+    shelf,
+    code: inventory?.code ?? null,
+  }
+  return Object.values(location).some(value => value != null) ? location : null
+}
+
+/**
+ * A location as text, e.g., "Archive › Vault B › F-12"
+ * An unresolved location shows its code; null shows as an empty string
+ */
+export function formatLocation(location: StorageLocation | null): string {
+  if (!location) return ''
+  const path = [location.site, location.room, location.shelf].filter(Boolean).join(DISPLAY_SEPARATOR)
+  return path || (location.code ?? '')
+}
+
+/**
+ * Element id for a site, room or shelf in the location browser
+ * e.g., ["Archive", "Vault B"] → "location-archive--vault-b"
+ */
+export function locationAnchor(path: (string | null)[]): string {
+  return `location-${path.map(name => slug(name ?? 'unrecorded')).join('--')}`
+}
+
+/* ============================================================================
+ * PUBLIC API - Grouping objects
+ * ========================================================================= */
+
+/**
+ * Groups items into a site → room → shelf tree
+ *
+ * Strategy:
+ * 1. Each item sits at the deepest level its location names; a shelf with no room
+ *    goes under a "room not recorded" node (name null)
+ * 2. Locations with only an unresolved code are listed by code, items with no location separately
+ * 3. Names are sorted naturally ("Rack 4" before "Rack 10"), unrecorded levels last
+ *
+ * @param items - Items to place
+ * @returns The tree, with counts that include every level below
+ */
+export function buildLocationTree(items: Item[]): LocationTree {
+  const sites: LocationNode[] = []
+  const unresolved = new Map<string, string[]>()
+  const unlocated: string[] = []
+
+  items.forEach(item => {
+    const location = item.location
+    if (!location) {
+      unlocated.push(item.id)
+      return
+    }
+    if (!location.site) {
+      const code = location.code ?? ''
+      const ids = unresolved.get(code)
+      if (ids) ids.push(item.id)
+      else unresolved.set(code, [item.id])
+      return
+    }
+
+    // Deepest level this location names - nothing below it gets a node
+    const depth = location.shelf ? 3 : location.room ? 2 : 1
+    let siblings = sites
+    let node: LocationNode | null = null
+    const path: (string | null)[] = []
+    for (const level of LEVELS.slice(0, depth)) {
+      const name = location[level]
+      path.push(name)
+      const existing = siblings.find(child => child.name === name)
+      node = existing ?? { level, name, path: [...path], itemIds: [], count: 0, children: [] }
+      if (!existing) siblings.push(node)
+      node.count++
+      siblings = node.children
+    }
+    node?.itemIds.push(item.id)
+  })
+
+  sortNodes(sites)
+  return {
+    sites,
+    unresolved: [...unresolved.entries()]
+      .map(([code, itemIds]) => ({ code, itemIds }))
+      .sort((a, b) => compareNames(a.code, b.code)),
+    unlocated,
+  }
+}
+
+/**
+ * Splits a typed or pasted list of object IDs or accession numbers
+ * e.g., "EI-0001, EI-0017\n1993.1.3" → ["EI-0001", "EI-0017", "1993.1.3"]
+ */
+export function parsePickListIds(text: string): string[] {
+  return text.split(/[\s,;]+/).filter(Boolean)
+}
+
+/**
+ * Builds a pick list: the chosen objects grouped by where they are stored
+ *
+ * Strategy:
+ * 1. Each requested value matches an object ID or accession number (ignoring case);
+ *    an object requested twice is listed once
+ * 2. Groups are one per location, in site → room → shelf order; objects with no
+ *    usable location come last
+ * 3. Within a group, objects are in accession number order
+ *
+ * @param entries - Every object that can be picked
+ * @param requested - Object IDs or accession numbers, e.g., from parsePickListIds
+ * @returns The groups, plus the requested values that matched nothing
+ */
+export function buildPickList(entries: PickListEntry[], requested: string[]): PickList {
+  const byKey = new Map<string, PickListEntry>()
+  entries.forEach(entry => {
+    byKey.set(entry.id.toLowerCase(), entry)
+    if (entry.accessionNumber) byKey.set(entry.accessionNumber.toLowerCase(), entry)
+  })
+
+  const picked = new Set<PickListEntry>()
+  const notFound: string[] = []
+  requested.forEach(value => {
+    const entry = byKey.get(value.trim().toLowerCase())
+    if (entry) picked.add(entry)
+    else if (!notFound.includes(value)) notFound.push(value)
+  })
+
+  const groups = new Map<string, { sortKey: (string | null)[]; group: PickListGroup }>()
+  picked.forEach(entry => {
+    const located = entry.location?.site ? entry.location : null
+    const label = located ? formatLocation(located) : NO_LOCATION_LABEL
+    const existing = groups.get(label) ?? {
+      sortKey: located ? [located.site, located.room, located.shelf] : [],
+      group: { label, entries: [] },
+    }
+    existing.group.entries.push(entry)
+    groups.set(label, existing)
+  })
+
+  return {
+    groups: [...groups.values()]
+      .sort((a, b) => compareLocationKeys(a.sortKey, b.sortKey))
+      .map(({ group }) => ({
+        ...group,
+        entries: group.entries.sort((a, b) => compareNames(a.accessionNumber ?? a.id, b.accessionNumber ?? b.id)),
+      })),
+    notFound,
+  }
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Room the authority lists for a site and shelf (null if it lists none, or several)
+ */
+function authorityRoom(site: string, shelf: string): string | null {
+  const rooms = new Set(Object.values(LOCATIONS)
+    .filter(location => sameName(location.site, site) && location.shelf && sameName(location.shelf, shelf))
+    .map(location => location.room))
+  const [room] = rooms
+  return rooms.size === 1 ? room ?? null : null
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+/**
+ * Natural order - numbers inside names compare by value ("Rack 4" < "Rack 10")
+ * null (not recorded) sorts after every name
+ */
+function compareNames(a: string | null, b: string | null): number {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1
+  return a.localeCompare(b, 'en', { numeric: true, sensitivity: 'base' })
+}
+
+/**
+ * Orders [site, room, shelf] keys level by level; an empty key (no location) sorts last
+ */
+function compareLocationKeys(a: (string | null)[], b: (string | null)[]): number {
+  if (a.length === 0 || b.length === 0) return b.length - a.length
+  for (let i = 0; i < LEVELS.length; i++) {
+    const order = compareNames(a[i], b[i])
+    if (order !== 0) return order
+  }
+  return 0
+}
+
+function sortNodes(nodes: LocationNode[]): void {
+  nodes.sort((a, b) => compareNames(a.name, b.name))
+  nodes.forEach(node => sortNodes(node.children))
+}
+
+function slug(text: string): string {
+  return text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')
+}
@@ -0,0 +1,53 @@
+/**
+ * Grid Pagination
+ *
+ * The collection grid is split into static pages of gridPageSize cards
+ * (see config.ts): page 1 at /, later pages at /page/2/, /page/3/, ...
+ * (each under the locale prefix). Filtering still covers the whole
+ * collection - see CollectionFilters.astro.
+ */
+
+import { localePath } from './i18n'
+
+/**
+ * Number of grid pages for a collection (at least 1, so an empty collection still has its page)
+ */
+export function pageCount(total: number, pageSize: number): number {
+  return Math.max(Math.ceil(total / pageSize), 1)
+}
+
+/**
+ * The [...page] route param of a grid page: undefined for page 1, "page/<n>" after that
+ */
+export function gridPageParam(page: number): string | undefined {
+  return page === 1 ? undefined : `page/${page}`
+}
+
+/**
+ * URL of a grid page, e.g., (3, "es") → "/es/page/3/"
+ */
+export function gridPagePath(page: number, locale?: string): string {
+  return localePath(page === 1 ? '/' : `/page/${page}/`, locale)
+}
+
+/**
+ * Page numbers to link to around the current page, with null for each gap
+ * e.g., page 6 of 20 → [1, null, 4, 5, 6, 7, 8, null, 20]
+ * A gap always stands for at least two pages - a single missing page is linked instead.
+ *
+ * @param current - Page being shown
+ * @param count - Number of pages
+ * @param around - Pages linked on each side of the current page
+ */
+export function pageWindow(current: number, count: number, around = 2): (number | null)[] {
+  const pages: (number | null)[] = []
+  let last = 0
+  for (let page = 1; page <= count; page++) {
+    if (page !== 1 && page !== count && Math.abs(page - current) > around) continue
+    if (page - last === 2) pages.push(last + 1)
+    else if (page - last > 2) pages.push(null)
+    pages.push(page)
+    last = page
+  }
+  return pages
+}
@@ -0,0 +1,132 @@
+/**
+ * Provenance Parsing
+ *
+ * Maps the ownership histories found in collection exports onto one
+ * ProvenanceEvent shape. Sources disagree on how they write them down:
+ * - objects with owner/date/method/source keys, or synonyms ("name", "holder",
+ *   "from"/"to", "acquisition", "notes", ...)
+ * - free-text lines, e.g., "Eames Office, 1950–1978, gift"
+ */
+
+import type { ItemDate, ProvenanceEvent } from '../types/item'
+import { dateFromYear, parseDate } from './dates'
+
+// Keys each field may appear under in an event object, in order of preference
+const OWNER_KEYS = ['owner', 'name', 'holder', 'party']
+const DATE_KEYS = ['date', 'dates', 'period']
+const START_KEYS = ['from', 'start', 'begin']
+const END_KEYS = ['to', 'end', 'until']
+const METHOD_KEYS = ['method', 'acquisition', 'transfer', 'mode']
+const SOURCE_NOTE_KEYS = ['sourceNote', 'source_note', 'source', 'citation', 'note', 'notes']
+
+// A free-text part naming how the object changed hands
+const METHOD_PATTERN = /\b(gift|given|purchased?|bought|sold|sale|bequest|bequeathed|by descent|inherited|transfer(red)?|exchange|commission(ed)?|donat(ed|ion)|loan)\b/i
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Parses one provenance entry into a ProvenanceEvent
+ *
+ * Strategy:
+ * 1. If object: read each field from the first key it appears under; a date range may be
+ *    one value ("1950–1978") or separate start and end values
+ * 2. If string: split on "," / ";" - the part that parses as a date is the date, a part
+ *    naming a transfer ("gift", "purchased", "by descent") is the method, the first other
+ *    part is the owner and the rest is the source note
+ * 3. "unknown" and empty values are treated as missing
+ *
+ * @param entry - One element of the raw provenance array (any shape)
+ * @returns The event, or null if nothing usable is left
+ */
+export function parseProvenanceEvent(entry: unknown): ProvenanceEvent | null {
+  const event = typeof entry === 'string'
+    ? parseProvenanceText(entry)
+    : entry != null && typeof entry === 'object' && !Array.isArray(entry)
+      ? parseProvenanceObject(entry as { [key: string]: unknown })
+      : null
+
+  if (!event || Object.values(event).every(value => value == null)) {
+    return null
+  }
+  return event
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+function parseProvenanceObject(entry: { [key: string]: unknown }): ProvenanceEvent {
+  const pick = (keys: string[]) => keys.map(key => entry[key]).find(value => value != null)
+
+  return {
+    owner: cleanText(pick(OWNER_KEYS)),
+    date: toDate(pick(DATE_KEYS)) ?? dateBetween(toDate(pick(START_KEYS)), toDate(pick(END_KEYS))),
+    method: cleanText(pick(METHOD_KEYS)),
+    sourceNote: cleanText(pick(SOURCE_NOTE_KEYS)),
+  }
+}
+
+function parseProvenanceText(text: string): ProvenanceEvent {
+  const parts = text.split(/\s*[,;]\s*/).map(cleanText).filter((part): part is string => part != null)
+
+  const dateIndex = parts.findLastIndex(part => parseDate(part)?.earliest != null)
+  const methodIndex = parts.findIndex((part, i) => i !== dateIndex && METHOD_PATTERN.test(part))
+  const rest = parts.filter((_, i) => i !== dateIndex && i !== methodIndex)
+
+  return {
+    owner: rest[0] ?? null,
+    date: dateIndex >= 0 ? parseDate(parts[dateIndex]) : null,
+    method: methodIndex >= 0 ? parts[methodIndex] : null,
+    sourceNote: rest.length > 1 ? rest.slice(1).join(', ') : null,
+  }
+}
+
+/**
+ * Reads a date written as a year, free text or { display, earliest, latest }
+ */
+function toDate(value: unknown): ItemDate | null {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return dateFromYear(value)
+  }
+  if (typeof value === 'string') {
+    return parseDate(value)
+  }
+  if (value != null && typeof value === 'object' && typeof (value as { display?: unknown }).display === 'string') {
+    const { display, earliest, latest } = value as { display: string; earliest?: unknown; latest?: unknown }
+    const parsed = parseDate(display)
+    return parsed && {
+      ...parsed,
+      earliest: typeof earliest === 'number' ? earliest : parsed.earliest,
+      latest: typeof latest === 'number' ? latest : parsed.latest,
+    }
+  }
+  return null
+}
+
+/**
+ * Joins separate start and end dates into one range, e.g., 1950 + 1978 → "1950–1978"
+ * A missing end leaves the range open ("1950–", latest null)
+ */
+function dateBetween(start: ItemDate | null, end: ItemDate | null): ItemDate | null {
+  if (!start && !end) {
+    return null
+  }
+  return {
+    display: `${start?.display ?? ''}–${end?.display ?? ''}`,
+    earliest: start?.earliest ?? null,
+    latest: end?.latest ?? null,
+    precision: start?.precision ?? end?.precision ?? null,
+    approximate: (start?.approximate ?? false) || (end?.approximate ?? false),
+  }
+}
+
+/**
+ * Trimmed text, or null for non-strings, empty strings and "unknown"
+ */
+function cleanText(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const text = value.trim()
+  return text === '' || text.toLowerCase() === 'unknown' ? null : text
+}
@@ -0,0 +1,134 @@
+/**
+ * Publication Policy
+ *
+ * Decides what the public edition of the site shows, following the policy in
+ * /src/data/publication.json: which records stay internal (by status, curator
+ * flags or failed validation), which fields and flags are left out, and which
+ * standard rights statement stands in for the exported rights value.
+ *
+ * The internal staff edition skips all of this and shows every record as loaded.
+ */
+
+import policyFile from '../data/publication.json'
+import type { CollectionEntry } from '../types/entry'
+import type { FlagOrigins, Item, ItemFlags } from '../types/item'
+import type { PublicationDecision, PublicationPolicy, WithheldRecord } from '../types/publication'
+
+export const PUBLICATION_POLICY = policyFile as PublicationPolicy
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Decides how the public edition treats one item
+ *
+ * Strategy:
+ * 1. Withhold the record if its status is withheld, a curator set a withheld flag in the
+ *    export (inferred flags don't count - a data problem shouldn't hide an object), or it
+ *    failed validation and the policy withholds invalid records
+ * 2. List the redacted fields and internal flags the item actually has
+ * 3. Pick the rights statement (see rightsStatement)
+ *
+ * @param item - Item as loaded
+ * @param invalid - Whether the record failed validation ("mark" strictness)
+ * @param policy - Policy to apply (defaults to /src/data/publication.json)
+ * @returns The decision - apply it with publicItem
+ */
+export function decidePublication(item: Item, invalid: boolean, policy: PublicationPolicy = PUBLICATION_POLICY): PublicationDecision {
+  const reasons: string[] = []
+  const status = item.status?.toLowerCase()
+  if (status && policy.withheldStatuses.some(withheld => withheld.toLowerCase() === status)) {
+    reasons.push(`status is "${item.status}"`)
+  }
+  policy.withheldFlags
+    .filter(flag => item.flags?.[flag] && item.flagOrigins?.[flag]?.source === 'export')
+    .forEach(flag => reasons.push(`flagged ${flag} by a curator`))
+  if (invalid && policy.withholdInvalid) {
+    reasons.push('failed validation')
+  }
+
+  return {
+    publish: reasons.length === 0,
+    reasons,
+    redactedFields: policy.redactedFields.filter(field => item[field] != null),
+    hiddenFlags: policy.internalFlags.filter(flag => item.flags?.[flag]),
+    rightsStatement: rightsStatement(item.rights, policy),
+  }
+}
+
+/**
+ * The standard rights statement for an exported rights value
+ * e.g., "© Eames Office LLC" → "In Copyright"; missing or unrecognized → the policy's default
+ */
+export function rightsStatement(rights: string | null, policy: PublicationPolicy = PUBLICATION_POLICY): string {
+  const text = rights?.toLowerCase() ?? ''
+  const rule = text ? policy.rightsStatements.find(statement => statement.match.some(match => text.includes(match.toLowerCase()))) : undefined
+  return rule?.label ?? policy.defaultRightsStatement
+}
+
+/**
+ * Applies a decision: the item as the public edition shows it
+ * Redacted fields become null, hidden flags are dropped and rights become the rights statement
+ *
+ * @param item - Item as loaded
+ * @param decision - From decidePublication
+ * @returns New item (does not mutate input)
+ */
+export function publicItem(item: Item, decision: PublicationDecision): Item {
+  const flags: ItemFlags = {}
+  const flagOrigins: FlagOrigins = {}
+  Object.entries(item.flags ?? {}).forEach(([key, value]) => {
+    const flag = key as keyof ItemFlags
+    if (decision.hiddenFlags.includes(flag)) return
+    flags[flag] = value
+    if (item.flagOrigins?.[flag]) flagOrigins[flag] = item.flagOrigins[flag]
+  })
+
+  return {
+    ...item,
+    ...Object.fromEntries(decision.redactedFields.map(field => [field, null])),
+    flags: Object.keys(flags).length > 0 ? flags : null,
+    flagOrigins: Object.keys(flagOrigins).length > 0 ? flagOrigins : null,
+    rights: decision.rightsStatement,
+  }
+}
+
+/**
+ * The entries the public edition shows
+ *
+ * Strategy:
+ * 1. Decide each item (see decidePublication) and keep the published ones, redacted
+ * 2. Drop related links to withheld records, so no page links to an object that isn't there
+ *
+ * @param entries - Entries as loaded
+ * @param invalidIds - Records that failed validation
+ * @param policy - Policy to apply (defaults to /src/data/publication.json)
+ * @returns The published entries (raw records are kept - don't render them publicly) and the withheld records
+ */
+export function publishEntries(
+  entries: CollectionEntry[],
+  invalidIds: Set<string>,
+  policy: PublicationPolicy = PUBLICATION_POLICY,
+): { entries: CollectionEntry[]; withheld: WithheldRecord[] } {
+  const withheld: WithheldRecord[] = []
+  const published: CollectionEntry[] = []
+
+  entries.forEach(entry => {
+    const decision = decidePublication(entry.item, invalidIds.has(entry.item.id), policy)
+    if (decision.publish) {
+      published.push({ ...entry, item: publicItem(entry.item, decision) })
+    } else {
+      withheld.push({ id: entry.item.id, title: entry.item.title, reasons: decision.reasons })
+    }
+  })
+
+  const withheldIds = new Set(withheld.map(record => record.id))
+  return {
+    entries: published.map(entry => ({
+      ...entry,
+      item: { ...entry.item, related: entry.item.related.filter(rel => rel.objectId == null || !withheldIds.has(rel.objectId)) },
+    })),
+    withheld,
+  }
+}
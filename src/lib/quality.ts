@@ -0,0 +1,124 @@
+/**
+ * Data-Quality Metrics
+ *
+ * Computes field completeness, flag counts and problem lists across the
+ * collection. Every issue has a key that doubles as the grid's "quality"
+ * filter value, so each number on the dashboard links to the matching records.
+ */
+
+import type { Item } from '../types/item'
+import type { CompletenessRow, QualityField, QualityIssueList, QualityMetrics } from '../types/quality'
+import { flagConfigs } from './flags'
+import { UNKNOWN_TITLE } from './transform'
+
+/**
+ * Fields whose completeness is tracked, with how to tell they're present
+ * A missing field becomes the issue "missing-<key>"
+ */
+const TRACKED_FIELDS: (QualityField & { present: (item: Item) => boolean })[] = [
+  { key: 'title', label: 'Title', present: item => item.title !== UNKNOWN_TITLE },
+  { key: 'creators', label: 'Creator', present: item => item.creators.length > 0 },
+  { key: 'date', label: 'Date', present: item => item.date != null },
+  { key: 'materials', label: 'Materials', present: item => item.materials != null },
+  { key: 'dimensions', label: 'Dimensions', present: item => item.dimensions != null },
+  { key: 'accessionNumber', label: 'Accession', present: item => item.accessionNumber != null },
+]
+
+/**
+ * Problems beyond a field simply being empty
+ */
+const VALUE_ISSUES: { key: string; label: string; test: (item: Item) => boolean }[] = [
+  {
+    key: 'unparseable-date',
+    label: 'Unparseable date',
+    test: item => item.date != null && (item.date.earliest == null || item.date.latest == null),
+  },
+  {
+    key: 'unparseable-dimensions',
+    label: 'Unparseable dimensions (no measurements)',
+    test: item => item.dimensions != null && Object.keys(item.dimensions.values).length === 0,
+  },
+]
+
+// Issues listed record by record on the dashboard
+const LISTED_ISSUES = ['missing-title', 'missing-accessionNumber', 'unparseable-date', 'unparseable-dimensions']
+
+/**
+ * Labels for every quality issue key, e.g., "missing-date" → "Missing date"
+ */
+export const QUALITY_ISSUE_LABELS: { [key: string]: string } = Object.fromEntries([
+  ...TRACKED_FIELDS.map(field => [`missing-${field.key}`, `Missing ${field.label.toLowerCase()}`]),
+  ...VALUE_ISSUES.map(issue => [issue.key, issue.label]),
+])
+
+/**
+ * Quality issue keys that apply to one item
+ *
+ * @returns e.g., ["missing-dimensions", "unparseable-date"]
+ */
+export function getQualityIssues(item: Item): string[] {
+  return [
+    ...TRACKED_FIELDS.filter(field => !field.present(item)).map(field => `missing-${field.key}`),
+    ...VALUE_ISSUES.filter(issue => issue.test(item)).map(issue => issue.key),
+  ]
+}
+
+/**
+ * Computes the dashboard metrics
+ *
+ * Strategy:
+ * 1. Work out each item's quality issues once
+ * 2. Count missing fields overall, per department and per object type
+ * 3. Count items per flag
+ * 4. List the items behind each problem registrars fix record by record
+ *
+ * @param items - Transformed items
+ * @returns Metrics for the /quality page
+ */
+export function buildQualityMetrics(items: Item[]): QualityMetrics {
+  const issuesById = new Map(items.map(item => [item.id, new Set(getQualityIssues(item))]))
+
+  const completeness = (group: string, members: Item[]): CompletenessRow => ({
+    group,
+    total: members.length,
+    missing: Object.fromEntries(TRACKED_FIELDS.map(field => [
+      field.key,
+      members.filter(item => issuesById.get(item.id)?.has(`missing-${field.key}`)).length,
+    ])),
+  })
+
+  const groupBy = (key: (item: Item) => string) => {
+    const groups = new Map<string, Item[]>()
+    items.forEach(item => {
+      const group = groups.get(key(item))
+      if (group) group.push(item)
+      else groups.set(key(item), [item])
+    })
+    return [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([group, members]) => completeness(group, members))
+  }
+
+  const issues: QualityIssueList[] = LISTED_ISSUES.map(key => ({
+    key,
+    label: QUALITY_ISSUE_LABELS[key],
+    items: items
+      .filter(item => issuesById.get(item.id)?.has(key))
+      .map(item => ({ id: item.id, title: item.title })),
+  }))
+
+  return {
+    total: items.length,
+    fields: TRACKED_FIELDS.map(({ key, label }) => ({ key, label })),
+    overall: completeness('All records', items),
+    byDepartment: groupBy(item => item.department),
+    byObjectType: groupBy(item => item.objectType),
+    flags: flagConfigs.map(flag => ({
+      key: flag.key,
+      label: flag.label,
+      count: items.filter(item => item.flags?.[flag.key]).length,
+      inferred: items.filter(item => item.flagOrigins?.[flag.key]?.source === 'inferred').length,
+    })),
+    issues,
+  }
+}
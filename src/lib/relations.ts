@@ -0,0 +1,129 @@
+/**
+ * Related-Object Graph
+ *
+ * Turns the one-way relations declared in the export into a two-way graph:
+ * slugs are resolved through externalIds.internal_slug, every resolved relation
+ * is mirrored on its target (derived-from ↔ source-of), and references that
+ * lead nowhere are reported instead of silently shown as raw IDs.
+ */
+
+import type { Item, RelatedItem } from '../types/item'
+import type { CollectionEntry } from '../types/entry'
+import type { DanglingReference } from '../types/relations'
+
+/**
+ * Inverse of each known relation type
+ * Symmetric relations map to themselves
+ */
+export const INVERSE_RELATIONS: { [type: string]: string } = {
+  'derived-from': 'source-of',
+  'source-of': 'derived-from',
+  'part-of': 'has-part',
+  'has-part': 'part-of',
+  'set-member': 'set-parent',
+  'set-parent': 'set-member',
+  'paired-with': 'paired-with',
+}
+
+/**
+ * Result of resolving the graph
+ */
+export interface ResolvedRelations {
+  items: Item[]                   // items with both directions of every relation
+  dangling: DanglingReference[]   // relations whose target isn't in the collection
+}
+
+/**
+ * Name of the relation as seen from the other end
+ * Unknown types get a readable fallback rather than guessing a name
+ */
+export function inverseRelationType(type: string): string {
+  return INVERSE_RELATIONS[type] ?? `${type} (inverse)`
+}
+
+/**
+ * Resolves related objects across the collection
+ *
+ * Strategy:
+ * 1. Index items by ID and by externalIds.internal_slug
+ * 2. Resolve each declared relation (ID first, then slug); unresolved ones are marked broken and reported
+ * 3. Add the inverse relation to each resolved target, unless the target already declares it
+ * 4. Fill in titles so the display never has to look them up
+ *
+ * @param items - Array of transformed items
+ * @returns New items with resolved and inverse relations (does not mutate input), plus dangling references
+ */
+export function resolveRelations(items: Item[]): ResolvedRelations {
+  const byId = new Map(items.map(item => [item.id, item]))
+  const bySlug = new Map<string, string>()
+  items.forEach(item => {
+    const slug = item.externalIds?.internal_slug
+    if (slug) bySlug.set(slug, item.id)
+  })
+
+  const dangling: DanglingReference[] = []
+
+  // Declared relations, resolved in place
+  const declared = new Map<string, RelatedItem[]>()
+  items.forEach(item => {
+    declared.set(item.id, item.related.map(rel => {
+      const targetId = (rel.objectId && byId.has(rel.objectId) ? rel.objectId : null)
+        ?? (rel.slug ? bySlug.get(rel.slug) ?? null : null)
+
+      if (targetId == null) {
+        dangling.push({
+          objectId: item.id,
+          type: rel.type,
+          target: rel.objectId ?? rel.slug ?? '',
+          reason: rel.objectId ? 'unknown-id' : 'unknown-slug',
+        })
+        return { ...rel, inverse: false, broken: true }
+      }
+
+      return { ...rel, objectId: targetId, title: byId.get(targetId)?.title, inverse: false, broken: false }
+    }))
+  })
+
+  // Inverse relations, skipping any the target already declares itself
+  // Keyed "owner type target", so checking for an existing relation doesn't scan a popular target's list
+  const linked = new Set<string>()
+  declared.forEach((rels, id) => rels.forEach(rel => linked.add(`${id} ${rel.type} ${rel.objectId}`)))
+  const inverses = new Map<string, RelatedItem[]>()
+  items.forEach(item => {
+    declared.get(item.id)?.forEach(rel => {
+      if (rel.broken || rel.objectId == null || rel.objectId === item.id) {
+        return
+      }
+      const type = inverseRelationType(rel.type)
+      const key = `${rel.objectId} ${type} ${item.id}`
+      if (linked.has(key)) {
+        return
+      }
+      linked.add(key)
+      const inverse: RelatedItem = { type, objectId: item.id, slug: null, title: item.title, inverse: true, broken: false }
+      const targetInverses = inverses.get(rel.objectId)
+      if (targetInverses) targetInverses.push(inverse)
+      else inverses.set(rel.objectId, [inverse])
+    })
+  })
+
+  return {
+    items: items.map(item => ({
+      ...item,
+      related: [...(declared.get(item.id) ?? []), ...(inverses.get(item.id) ?? [])],
+    })),
+    dangling,
+  }
+}
+
+/**
+ * Resolves related objects for the items inside entries
+ * Same as resolveRelations, but keeps each item paired with its source record
+ */
+export function resolveRelatedEntries(entries: CollectionEntry[]): { entries: CollectionEntry[]; dangling: DanglingReference[] } {
+  const { items, dangling } = resolveRelations(entries.map(entry => entry.item))
+  return {
+    entries: entries.map((entry, i) => ({ ...entry, item: items[i] })),
+    dangling,
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Runtime Schemas
+ *
+ * Small building blocks for checking untrusted JSON against the shapes the
+ * code expects: the collection export (see validate.ts) and curator
+ * corrections (see corrections.ts). Each schema describes itself (for error
+ * messages) and returns a list of problems for a value at a given path.
+ * An empty list means the value is fine.
+ */
+
+/**
+ * One reason a value doesn't match, e.g., { path: "date.earliest", reason: "expected number, got string" }
+ */
+export interface Problem {
+  path: string
+  reason: string
+}
+
+export interface Schema {
+  describe: string
+  check: (value: unknown, path: string) => Problem[]
+  alternatives?: Schema[]  // set by oneOf so nested unions flatten into one list
+}
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * "null", "array", or the typeof of anything else
+ */
+export const describeValue = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const primitive = (type: 'string' | 'number' | 'boolean'): Schema => ({
+  describe: type,
+  check: (value, path) => typeof value === type
+    ? []
+    : [{ path, reason: `expected ${type}, got ${describeValue(value)}` }],
+})
+
+export const string = primitive('string')
+export const number = primitive('number')
+export const boolean = primitive('boolean')
+
+export const nullValue: Schema = {
+  describe: 'null',
+  check: (value, path) => value === null ? [] : [{ path, reason: `expected null, got ${describeValue(value)}` }],
+}
+
+/**
+ * Any JSON value at all (for fields whose type varies in the source)
+ */
+export const anyValue: Schema = {
+  describe: 'any',
+  check: () => [],
+}
+
+/**
+ * Value must be one of the given strings, e.g., a DatePrecision
+ */
+export const literal = (...values: string[]): Schema => {
+  const describe = values.map(value => JSON.stringify(value)).join(' | ')
+  return {
+    describe,
+    check: (value, path) => values.includes(value as string)
+      ? []
+      : [{ path, reason: `expected ${describe}, got ${typeof value === 'string' ? JSON.stringify(value) : describeValue(value)}` }],
+  }
+}
+
+/**
+ * Value must match at least one of the given schemas
+ * Object alternatives report their own nested problems when the value is an object
+ */
+export const oneOf = (...options: Schema[]): Schema => {
+  const schemas = options.flatMap(s => s.alternatives ?? [s])
+  const describe = schemas.map(s => s.describe).join(' | ')
+
+  return {
+    describe,
+    alternatives: schemas,
+    check: (value, path) => {
+      const results = schemas.map(s => s.check(value, path))
+      if (results.some(problems => problems.length === 0)) {
+        return []
+      }
+
+      // If the value is an object and one alternative is an object schema,
+      // its nested problems are more useful than a generic "expected X | Y"
+      const objectIndex = schemas.findIndex(s => s.describe === 'object')
+      if (objectIndex !== -1 && describeValue(value) === 'object') {
+        return results[objectIndex]
+      }
+
+      return [{ path, reason: `expected ${describe}, got ${describeValue(value)}` }]
+    },
+  }
+}
+
+export const nullable = (schema: Schema): Schema => oneOf(schema, nullValue)
+
+export const arrayOf = (item: Schema): Schema => ({
+  describe: 'array',
+  check: (value, path) => {
+    if (!Array.isArray(value)) {
+      return [{ path, reason: `expected array, got ${describeValue(value)}` }]
+    }
+    return value.flatMap((entry, i) => item.check(entry, `${path}[${i}]`))
+  },
+})
+
+/**
+ * Object with known fields
+ * Fields listed in `required` must be present (they may still be null if their schema allows it)
+ */
+export const object = (shape: { [key: string]: Schema }, required: string[] = []): Schema => ({
+  describe: 'object',
+  check: (value, path) => {
+    if (describeValue(value) !== 'object') {
+      return [{ path, reason: `expected object, got ${describeValue(value)}` }]
+    }
+
+    const obj = value as { [key: string]: unknown }
+    const prefix = path ? `${path}.` : ''
+
+    const missing = required
+      .filter(key => !(key in obj))
+      .map(key => ({ path: `${prefix}${key}`, reason: 'missing required field' }))
+
+    const invalid = Object.keys(shape)
+      .filter(key => key in obj && obj[key] !== undefined)
+      .flatMap(key => shape[key].check(obj[key], `${prefix}${key}`))
+
+    return [...missing, ...invalid]
+  },
+})
+
+/**
+ * Object used as a map: any keys, every value matching the schema (e.g., externalIds)
+ */
+export const mapOf = (value: Schema): Schema => ({
+  describe: 'object',
+  check: (map, path) => {
+    if (describeValue(map) !== 'object') {
+      return [{ path, reason: `expected object, got ${describeValue(map)}` }]
+    }
+    const prefix = path ? `${path}.` : ''
+    return Object.entries(map as { [key: string]: unknown }).flatMap(([key, entry]) => value.check(entry, `${prefix}${key}`))
+  },
+})
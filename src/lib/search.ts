@@ -0,0 +1,231 @@
+/**
+ * Search Index, Facets and Filtering
+ *
+ * Build-time half: turns transformed Items into a compact search index and facet counts.
+ * Browser half: filters and sorts that index, and reads/writes the filter state in the URL.
+ * Everything here is plain functions so the same code runs in both places.
+ */
+
+import type { Item } from '../types/item'
+import type { FacetValue, Facets, FilterState, SearchDocument, SortOption } from '../types/search'
+import { dimensionSortKey } from './dimensions'
+import { flagConfigs } from './flags'
+import { getQualityIssues, QUALITY_ISSUE_LABELS } from './quality'
+import { broaderTerms } from './vocabulary'
+import type { MessageKey, Translate } from './i18n'
+
+/* ============================================================================
+ * BUILD TIME - Index and facets
+ * ========================================================================= */
+
+/**
+ * Builds the search index shipped to the browser
+ *
+ * @param items - Transformed (and enriched) items
+ * @returns One document per item, in source order
+ */
+export function buildSearchIndex(items: Item[]): SearchDocument[] {
+  return items.map(item => ({
+    id: item.id,
+    text: foldText([
+      item.title,
+      ...item.creators.map(creator => creator.name),
+      item.description,
+      // Broader terms too, so "toys" also finds spinning tops
+      ...[...(item.keywords ?? []), ...(item.tags ?? [])].flatMap(term => [term, ...broaderTerms(term, 'subjects')]),
+      item.transcription,
+    ].filter(Boolean).join(' ')),
+    department: item.department,
+    objectType: item.objectType,
+    flags: Object.keys(item.flags ?? {}),
+    quality: getQualityIssues(item),
+    creators: item.creators.map(creator => creator.name),
+    earliest: item.date?.earliest ?? null,
+    latest: item.date?.latest ?? null,
+    title: item.title,
+    accessionNumber: item.accessionNumber,
+    size: dimensionSortKey(item.dimensions),
+  }))
+}
+
+/**
+ * Counts facet values across the collection
+ *
+ * @param index - Search index from buildSearchIndex
+ * @param t - Translates flag and data-quality labels (English labels when omitted)
+ * @returns Facet options sorted by label, plus the overall year range
+ */
+export function buildFacets(index: SearchDocument[], t?: Translate): Facets {
+  const years = index
+    .flatMap(doc => [doc.earliest, doc.latest])
+    .filter((year): year is number => year != null)
+
+  const flagLabels = new Map<string, string>(flagConfigs.map(flag => [flag.key, t ? t(`flag.${flag.key}`) : flag.label]))
+  const qualityLabel = (key: string) => t ? t(`quality.${key}` as MessageKey) : QUALITY_ISSUE_LABELS[key] ?? key
+
+  return {
+    departments: countValues(index.map(doc => [doc.department])),
+    objectTypes: countValues(index.map(doc => [doc.objectType])),
+    flags: countValues(index.map(doc => doc.flags), key => flagLabels.get(key) ?? key),
+    quality: countValues(index.map(doc => doc.quality), qualityLabel),
+    creators: countValues(index.map(doc => doc.creators)),
+    years: years.length > 0 ? { min: Math.min(...years), max: Math.max(...years) } : null,
+  }
+}
+
+/* ============================================================================
+ * BROWSER - Filtering, sorting and URL state
+ * ========================================================================= */
+
+// Labels are the message keys "sort.<value>" (see i18n.ts)
+export const SORT_OPTIONS: SortOption[] = ['source', 'title', 'date', 'date-desc', 'accession', 'size']
+
+/**
+ * Returns the ids of documents matching the state, in the requested order
+ */
+export function applyFilters(index: SearchDocument[], state: FilterState): string[] {
+  const terms = foldText(state.query).split(/\s+/).filter(Boolean)
+
+  const matches = index.filter(doc =>
+    terms.every(term => doc.text.includes(term)) &&
+    matchesAny(state.departments, [doc.department]) &&
+    matchesAny(state.objectTypes, [doc.objectType]) &&
+    matchesAny(state.flags, doc.flags) &&
+    matchesAny(state.quality, doc.quality) &&
+    matchesAny(state.creators, doc.creators) &&
+    overlapsYears(doc, state.yearFrom, state.yearTo)
+  )
+
+  return sortDocuments(matches, state.sort).map(doc => doc.id)
+}
+
+/**
+ * Reads filter state from a query string
+ * Unknown or malformed values fall back to "no filter"
+ */
+export function parseFilterState(params: URLSearchParams): FilterState {
+  const sort = params.get('sort') as SortOption | null
+  return {
+    query: params.get('q') ?? '',
+    departments: params.getAll('department'),
+    objectTypes: params.getAll('type'),
+    flags: params.getAll('flag'),
+    quality: params.getAll('quality'),
+    creators: params.getAll('creator'),
+    yearFrom: parseYear(params.get('from')),
+    yearTo: parseYear(params.get('to')),
+    sort: SORT_OPTIONS.includes(sort as SortOption) ? sort as SortOption : 'source',
+  }
+}
+
+/**
+ * Writes filter state to a query string, leaving out defaults so URLs stay short
+ */
+export function serializeFilterState(state: FilterState): URLSearchParams {
+  const params = new URLSearchParams()
+  if (state.query.trim()) params.set('q', state.query.trim())
+  state.departments.forEach(value => params.append('department', value))
+  state.objectTypes.forEach(value => params.append('type', value))
+  state.flags.forEach(value => params.append('flag', value))
+  state.quality.forEach(value => params.append('quality', value))
+  state.creators.forEach(value => params.append('creator', value))
+  if (state.yearFrom != null) params.set('from', String(state.yearFrom))
+  if (state.yearTo != null) params.set('to', String(state.yearTo))
+  if (state.sort !== 'source') params.set('sort', state.sort)
+  return params
+}
+
+/**
+ * Link to the collection grid with some filters applied
+ * e.g., filterPath({ departments: ['Furniture'], quality: ['missing-date'] }) → "/?department=Furniture&quality=missing-date"
+ */
+export function filterPath(filters: Partial<FilterState>): string {
+  const query = serializeFilterState({ ...parseFilterState(new URLSearchParams()), ...filters }).toString()
+  return query ? `/?${query}` : '/'
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Lowercases and strips diacritics so "Mâché" matches "mache"
+ */
+function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase()
+}
+
+/**
+ * Counts how many documents carry each value
+ */
+function countValues(valueLists: string[][], label: (value: string) => string = value => value): FacetValue[] {
+  const counts = new Map<string, number>()
+  valueLists.forEach(values => {
+    new Set(values).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1))
+  })
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, label: label(value), count }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/**
+ * An empty selection means "no filter"; otherwise at least one value must match
+ */
+function matchesAny(selected: string[], values: string[]): boolean {
+  return selected.length === 0 || values.some(value => selected.includes(value))
+}
+
+/**
+ * Whether an item's date range overlaps the requested years
+ * Items without a date never match once a year filter is set
+ */
+function overlapsYears(doc: SearchDocument, from: number | null, to: number | null): boolean {
+  if (from == null && to == null) {
+    return true
+  }
+  if (doc.earliest == null || doc.latest == null) {
+    return false
+  }
+  return (from == null || doc.latest >= from) && (to == null || doc.earliest <= to)
+}
+
+/**
+ * Sorts documents; items missing the sort value always go last
+ */
+function sortDocuments(docs: SearchDocument[], sort: SortOption): SearchDocument[] {
+  const byNullable = <T>(get: (doc: SearchDocument) => T | null, compare: (a: T, b: T) => number) =>
+    (a: SearchDocument, b: SearchDocument) => {
+      const valueA = get(a)
+      const valueB = get(b)
+      if (valueA == null) return valueB == null ? 0 : 1
+      if (valueB == null) return -1
+      return compare(valueA, valueB)
+    }
+
+  const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true })
+
+  const comparators: { [option in SortOption]: ((a: SearchDocument, b: SearchDocument) => number) | null } = {
+    'source': null,
+    'title': byNullable(doc => doc.title, compareText),
+    'date': byNullable(doc => doc.earliest, (a, b) => a - b),
+    'date-desc': byNullable(doc => doc.latest, (a, b) => b - a),
+    'accession': byNullable(doc => doc.accessionNumber, compareText),
+    'size': byNullable(doc => doc.size, (a, b) => b - a),
+  }
+
+  const comparator = comparators[sort]
+  // Array.prototype.sort is stable, so ties keep collection order
+  return comparator ? [...docs].sort(comparator) : docs
+}
+
+/**
+ * Parses a year from the query string (null if missing or not a number)
+ */
+function parseYear(value: string | null): number | null {
+  if (value == null || value.trim() === '') {
+    return null
+  }
+  const year = Number(value)
+  return Number.isInteger(year) ? year : null
+}
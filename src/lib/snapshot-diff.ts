@@ -0,0 +1,186 @@
+/**
+ * Snapshot Diffing
+ *
+ * Compares two collection exports by object_id. Both are validated and run
+ * through the current transform first, and the normalized Items are compared,
+ * so a value that was only re-formatted in the source (e.g., "Charles & Ray
+ * Eames" → "Charles and Ray Eames") doesn't show up as a change.
+ */
+
+import { transformRecords } from './transform'
+import { validateExport } from './validate'
+import type { Item } from '../types/item'
+import type { ChangedObject, FieldChange, SnapshotDiff, SnapshotInfo } from '../types/snapshot-diff'
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Lists added, removed and changed objects between two exports
+ *
+ * Strategy:
+ * 1. Validate both exports in "mark" mode, so every record with an object_id is compared
+ * 2. Normalize both with the current transform
+ * 3. Match objects by object_id; objects in only one snapshot are added or removed
+ * 4. Diff matched objects field by field on a comparable view of the Item (see comparable())
+ *
+ * @param before - Parsed JSON of the older export (not yet trusted)
+ * @param after - Parsed JSON of the newer export (not yet trusted)
+ * @returns Added, removed and changed objects, in object_id order
+ */
+export function diffSnapshots(before: unknown, after: unknown): SnapshotDiff {
+  const older = loadSnapshot(before)
+  const newer = loadSnapshot(after)
+
+  const added: Item[] = []
+  const changed: ChangedObject[] = []
+  let unchanged = 0
+
+  for (const [id, item] of newer.items) {
+    const previous = older.items.get(id)
+    if (!previous) {
+      added.push(item)
+      continue
+    }
+    const changes: FieldChange[] = []
+    diffValues(comparable(previous), comparable(item), '', changes)
+    if (changes.length > 0) {
+      changed.push({ objectId: id, title: item.title, changes })
+    } else {
+      unchanged++
+    }
+  }
+  const removed = [...older.items.values()].filter(item => !newer.items.has(item.id))
+
+  return {
+    before: older.info,
+    after: newer.info,
+    added: added.sort((a, b) => a.id.localeCompare(b.id)),
+    removed: removed.sort((a, b) => a.id.localeCompare(b.id)),
+    changed: changed.sort((a, b) => a.objectId.localeCompare(b.objectId)),
+    unchanged,
+  }
+}
+
+/**
+ * Renders a diff as a Markdown report for review before publishing
+ *
+ * @param diff - Result of diffSnapshots
+ * @returns Markdown document
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  const lines = [
+    '# Collection changes',
+    '',
+    `- Before: ${describeSnapshot(diff.before)}`,
+    `- After: ${describeSnapshot(diff.after)}`,
+    '',
+    `**${diff.added.length} added · ${diff.removed.length} removed · ${diff.changed.length} changed · ${diff.unchanged} unchanged**`,
+  ]
+
+  if (diff.added.length > 0) {
+    lines.push('', `## Added (${diff.added.length})`, '')
+    diff.added.forEach(item => lines.push(`- ${item.id} - ${item.title}`))
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push('', `## Removed (${diff.removed.length})`, '')
+    diff.removed.forEach(item => lines.push(`- ${item.id} - ${item.title}`))
+  }
+
+  if (diff.changed.length > 0) {
+    lines.push('', `## Changed (${diff.changed.length})`)
+    diff.changed.forEach(object => {
+      lines.push('', `### ${object.objectId} - ${object.title}`, '', '| Field | Before | After |', '| --- | --- | --- |')
+      object.changes.forEach(change => {
+        lines.push(`| \`${change.path}\` | ${tableCell(change.before)} | ${tableCell(change.after)} |`)
+      })
+    })
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Validates and normalizes one export, keyed by object_id
+ * If an object_id occurs twice, the later record wins
+ */
+function loadSnapshot(data: unknown): { info: SnapshotInfo; items: Map<string, Item> } {
+  const validation = validateExport(data, 'mark')
+  const items = transformRecords(validation.records)
+  return {
+    info: { meta: validation.meta, records: items.length, issues: validation.report.issues.length },
+    items: new Map(items.map(item => [item.id, item])),
+  }
+}
+
+/**
+ * The parts of an Item that count as content
+ *
+ * Leaves out what only reflects how the source formatted a value:
+ * - creators are compared by canonical name and certainty, not the raw source string
+ * - date and dimension display strings are ignored when structured values were parsed from them
+ * - flagOrigins is bookkeeping; a flag turning on or off shows up under flags
+ */
+function comparable(item: Item): { [field: string]: unknown } {
+  const { flagOrigins: _, ...fields } = item
+  const date = item.date && {
+    ...item.date,
+    display: item.date.earliest == null && item.date.latest == null ? item.date.display : undefined,
+  }
+  const dimensions = item.dimensions && {
+    ...item.dimensions,
+    display: Object.keys(item.dimensions.values).length === 0 ? item.dimensions.display : undefined,
+  }
+  return {
+    ...fields,
+    creators: item.creators.map(creator => creator.uncertain ? `${creator.name}?` : creator.name),
+    date,
+    dimensions,
+    related: item.related.map(relation => `${relation.type}: ${relation.objectId ?? relation.slug}`),
+  }
+}
+
+/**
+ * Collects changed paths between two values
+ * Objects are compared key by key (a missing object counts as empty); everything else as a whole
+ */
+function diffValues(before: unknown, after: unknown, path: string, changes: FieldChange[]): void {
+  if ((isObject(before) || isObject(after)) && (before == null || isObject(before)) && (after == null || isObject(after))) {
+    const older = (before ?? {}) as { [key: string]: unknown }
+    const newer = (after ?? {}) as { [key: string]: unknown }
+    const keys = new Set([...Object.keys(older), ...Object.keys(newer)])
+    keys.forEach(key => diffValues(older[key], newer[key], path ? `${path}.${key}` : key, changes))
+    return
+  }
+  // null and a missing value both mean "no value"
+  if (JSON.stringify(before ?? null) !== JSON.stringify(after ?? null)) {
+    changes.push({ path, before, after })
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describeSnapshot(info: SnapshotInfo): string {
+  const meta = info.meta ? `${info.meta.source}, exported ${info.meta.exportedAt}` : 'unknown export'
+  const issues = info.issues > 0 ? `, ${info.issues} validation issue(s)` : ''
+  return `${meta} (${info.records} records${issues})`
+}
+
+/**
+ * A value as Markdown table cell text
+ */
+function tableCell(value: unknown): string {
+  if (value == null) return '_(none)_'
+  const text = Array.isArray(value) && value.every(entry => typeof entry === 'string')
+    ? value.join(', ')
+    : typeof value === 'string' ? value : JSON.stringify(value)
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+}
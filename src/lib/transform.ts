@@ -5,7 +5,17 @@
  */
 
 import type { Record as SampleRecord, L as DimensionValue } from '../scripts/quicktype-generated'
-import type { Item, ItemFlags } from '../types/item'
+import type { Item, ItemFlags, Variant } from '../types/item'
+import type { TransformEvent, TransformRule } from '../types/audit'
+import type { VocabularyName } from '../types/vocabulary'
+import type { CollectionEntry, ExportMeta } from '../types/entry'
+import { parseDate, dateFromYear } from './dates'
+import { parseCreator } from './creators'
+import { parseDimensionText, toCentimeters } from './dimensions'
+import { parseProvenanceEvent } from './provenance'
+import { preferredTerm } from './vocabulary'
+import { locationsAgree, lookupLocation, mergeLocation } from './locations'
+import { inferFlags } from './flag-rules'
 
 // Type aliases for readability - derived from the quicktype-generated Record type
 // These stay in sync automatically if the schema is regenerated
@@ -20,86 +30,126 @@ type SampleRights = SampleRecord['rights']
 type SampleGeo = SampleRecord['geo']
 type SampleSeries = SampleRecord['series']
 type SampleLocation = SampleRecord['location']
+type SampleInventoryLocation = SampleRecord['inventory_location']
 type SampleEdition = SampleRecord['edition']
+type SampleVariants = SampleRecord['variants']
+type SampleProvenance = SampleRecord['provenance']
+
+/**
+ * Callback normalizers use to report which rule fired for their field
+ * transformRecord binds one per field; it does nothing unless events are being collected
+ */
+type LogEvent = (rule: TransformRule, input: unknown, output: unknown) => void
+
+// Unit assumed for dimension values when neither the record nor its display names one
+const DEFAULT_DIMENSION_UNIT = 'in'
+
+// Properties a variant can describe
+const VARIANT_FIELDS: (keyof Variant)[] = ['color', 'shell', 'finish', 'upholstery', 'notes']
 
 /* ============================================================================
  * PUBLIC API - Main transformation functions
  * ========================================================================= */
 
+/**
+ * Version of the normalization rules
+ * Bump whenever a change to this file (or dates.ts / creators.ts / provenance.ts / vocabulary.json / locations.json) changes the Item output,
+ * so stored entries can tell which rules produced them
+ */
+export const TRANSFORM_VERSION = '5.0.2'
+
+// Title given to records without one - compare against this rather than repeating the text
+export const UNKNOWN_TITLE = 'Unknown Title'
+
 /**
  * Transforms a single raw sample record into a normalized Item
  *
  * @param record - Raw data from the sample export
+ * @param events - Optional audit trail: every normalization rule that fires is pushed here
  * @returns Clean, normalized Item with consistent types
  */
-export function transformRecord(record: SampleRecord): Item {
-  return {
+export function transformRecord(record: SampleRecord, events?: TransformEvent[]): Item {
+  // Bind a logger per field so normalizers don't need to know the record or field name
+  const log = (field: string): LogEvent => (rule, input, output) => {
+    events?.push({ objectId: record.object_id, field, rule, input, output })
+  }
+
+  const item: Item = {
     // Main fields
     id: record.object_id,
     accessionNumber: normalizeString(record.accession_number),
-    title: record.title || 'Unknown Title',  // Provide fallback for missing titles
-    creator: normalizeCreator(record.creator),
-    date: normalizeDate(record.date),
+    title: normalizeTitle(record.title, log('title')),
+    creators: normalizeCreator(record.creator, log('creators')),
+    date: normalizeDate(record.date, log('date')),
     objectType: record.object_type,
     department: record.department,
-    materials: normalizeMaterials(record.materials),
-    dimensions: normalizeDimensions(record.dimensions),
-    flags: normalizeFlags(record.flags),
-    related: normalizeRelated(record.related),
+    materials: normalizeMaterials(record.materials, log('materials')),
+    dimensions: normalizeDimensions(record.dimensions, log('dimensions')),
+    flags: normalizeFlags(record.flags, log('flags')),
+    flagOrigins: null,  // filled in by inferFlags below
+    related: normalizeRelated(record.related, log('related')),
+    corrections: null,  // filled in by applyCorrections (corrections.ts) after the whole collection is loaded
 
     // Additional fields (for modal)
     notes: normalizeArray(record.notes),
-    externalIds: normalizeExternalIds(record.external_ids),
-    keywords: normalizeArray(record.keywords),
+    externalIds: normalizeExternalIds(record.external_ids, log('externalIds')),
+    keywords: normalizeTerms(record.keywords, 'subjects', log('keywords')),
     description: normalizeString(record.description),
-    rights: normalizeRights(record.rights),
-    variants: normalizeArray(record.variants),
-    tags: normalizeArray(record.tags),
+    rights: normalizeRights(record.rights, log('rights')),
+    variants: normalizeVariants(record.variants, log('variants')),
+    tags: normalizeTerms(record.tags, 'subjects', log('tags')),
     creditLine: normalizeString(record.credit_line),
     condition: normalizeString(record.condition),
     geo: normalizeGeo(record.geo),
-    inventoryLocation: record.inventory_location ?? null,
     transcription: normalizeString(record.transcription),
     series: normalizeSeries(record.series),
-    location: normalizeLocation(record.location),
+    location: normalizeLocation(record.location, record.inventory_location, log('location')),
     edition: normalizeEdition(record.edition),
     status: normalizeString(record.status),
-    provenance: normalizeArray(record.provenance),
+    provenance: normalizeProvenance(record.provenance, log('provenance')),
   }
+
+  // Add the flags the data implies but the export doesn't set (see flag-rules.ts)
+  return inferFlags(item, (flag, reason) => log('flags')('flag-inferred', reason, flag))
 }
 
 /**
  * Transforms an array of raw sample records
  *
  * @param records - Array of raw sample data
+ * @param events - Optional audit trail shared by all records (see summarizeEvents in audit.ts)
  * @returns Array of normalized Items
  */
-export function transformRecords(records: SampleRecord[]): Item[] {
-  return records.map(transformRecord)
+export function transformRecords(records: SampleRecord[], events?: TransformEvent[]): Item[] {
+  return records.map(record => transformRecord(record, events))
 }
 
 /**
- * Enriches items with related object titles
- * Looks up each related object ID and adds its title
+ * Transforms raw records into versioned entries that keep the source record
  *
- * @param items - Array of transformed items
- * @returns New array with related titles populated (does not mutate input)
+ * @param records - Array of raw sample data
+ * @param meta - Metadata of the export the records came from
+ * @param source - Id of the configured source the export was read from
+ * @param events - Optional audit trail shared by all records
+ * @param keepRaw - Keep a copy of each raw record (false leaves raw null, so a large export isn't held twice)
+ * @returns One entry per record: normalized Item, untouched raw record, version, meta and source
  */
-export function enrichRelatedItems(items: Item[]): Item[] {
-  // Create a lookup map of ID -> title
-  const titleMap = new Map<string, string>()
-  items.forEach(item => {
-    titleMap.set(item.id, item.title)
-  })
+export function createEntries(records: SampleRecord[], meta: ExportMeta | null, source: string, events?: TransformEvent[], keepRaw = true): CollectionEntry[] {
+  return records.map(record => createEntry(record, meta, source, events, keepRaw))
+}
 
-  // Return new items with enriched related arrays
-  return items.map(item => ({
-    ...item,
-    related: item.related.map(rel => ({
-      ...rel,
-      title: titleMap.get(rel.objectId) || rel.objectId
-    }))
-  }))
+/**
+ * Transforms one raw record into a versioned entry, for sources read record by record
+ * (same parameters as createEntries)
+ */
+export function createEntry(record: SampleRecord, meta: ExportMeta | null, source: string, events?: TransformEvent[], keepRaw = true): CollectionEntry {
+  return {
+    item: transformRecord(record, events),
+    raw: keepRaw ? deepFreeze(structuredClone(record)) : null,  // copy first so later edits to the export can't leak in
+    transformVersion: TRANSFORM_VERSION,
+    meta,
+    source,
+  }
 }
 
 /* ============================================================================
@@ -107,185 +157,314 @@ export function enrichRelatedItems(items: Item[]): Item[] {
  * ========================================================================= */
 
 /**
- * Normalizes the creator field into a consistent string format
+ * Normalizes the title, providing a fallback for missing titles
+ */
+function normalizeTitle(title: string | null, log: LogEvent): Item['title'] {
+  const normalized = normalizeString(title)
+  if (normalized == null) {
+    log('title-fallback', title, UNKNOWN_TITLE)
+    return UNKNOWN_TITLE
+  }
+  return normalized
+}
+
+/**
+ * Normalizes the creator field into a list of individual creators
  *
  * Strategy:
- * 1. If array: join with " and " (e.g., ["Charles Eames", "Ray Eames"] → "Charles Eames and Ray Eames")
- * 2. If string: use as-is
- * 3. If empty array or null: return null
+ * 1. If array: parse each entry
+ * 2. If string: parse it (joint names like "Charles and Ray Eames" are split)
+ * 3. Drop "Unknown" entries and duplicates of the same canonical name
+ * 4. If empty array or null: return []
  *
  * @param creator - Can be string, array of strings, empty array, or null
- * @returns Normalized creator string or null
+ * @returns Creator entries (empty if unknown)
  */
-function normalizeCreator(creator: SampleCreator): Item['creator'] {
-  // Handle null or undefined
+function normalizeCreator(creator: SampleCreator, log: LogEvent): Item['creators'] {
   if (creator == null) {
-    return null
-  }
-
-  // Handle array
-  if (Array.isArray(creator)) {
-    // Empty array? No creator
-    if (creator.length === 0) {
-      return null
-    }
-    // Filter out "Unknown" from arrays
-    const filtered = creator.filter(c => c.toLowerCase() !== 'unknown')
-    if (filtered.length === 0) {
-      return null
-    }
-    // Join multiple creators with "and"
-    return filtered.join(' and ')
+    return []
   }
 
-  // Handle string - use as-is (unless empty or "Unknown")
-  if (typeof creator === 'string' && creator.trim()) {
-    const normalized = creator.trim()
-    if (normalized.toLowerCase() === 'unknown' || normalized === '') {
-      return null
-    }
-    return normalized
-  }
+  const rawNames = Array.isArray(creator) ? creator : [creator]
+
+  // Parse each raw name, keeping the first entry per canonical name
+  const creators: Item['creators'] = []
+  rawNames
+    .filter(raw => typeof raw === 'string')
+    .forEach(raw => {
+      const entries = parseCreator(raw)
+
+      if (entries.length === 0) {
+        log(raw.trim() === '' ? 'empty-nulled' : 'unknown-nulled', raw, null)
+      } else if (entries.length > 1) {
+        log('joint-name-split', raw, entries.map(entry => entry.name))
+      }
+
+      entries.forEach(entry => {
+        if (entry.uncertain) {
+          log('uncertain-marker', raw, entry.name)
+        } else if (entries.length === 1 && entry.name !== raw.trim()) {
+          log('alias-applied', raw, entry.name)
+        }
+
+        if (creators.some(existing => existing.name === entry.name)) {
+          log('duplicate-dropped', raw, null)
+        } else {
+          creators.push(entry)
+        }
+      })
+    })
 
-  // Fallback for any unexpected format
-  return null
+  return creators
 }
 
 /**
- * Normalizes the date field into a consistent string format
+ * Normalizes the date field into a structured ItemDate
  *
  * Strategy:
- * 1. If object with "display": use display value
- * 2. If number: convert to string
- * 3. If string: use as-is
- * 4. If null: return null
+ * 1. If object with "display": parse the display, but prefer the source's earliest/latest years
+ * 2. If number: treat as a single year
+ * 3. If string: parse free text ("c. 1938", "1950s", "1935–1936", "2025-03", ...)
+ * 4. If null or "unknown": return null
  *
  * @param date - Can be object, string, number, or null
- * @returns Normalized date string or null
+ * @returns Structured date or null
  */
-function normalizeDate(date: SampleDate): Item['date'] {
+function normalizeDate(date: SampleDate, log: LogEvent): Item['date'] {
   if (date == null) {
     return null
   }
 
-  // Object with display field? Use that (unless it's "unknown")
+  // Object with display field? Parse it, keeping any bounds the source already provides
   if (typeof date === 'object' && 'display' in date && date.display) {
-    const display = String(date.display).trim().toLowerCase()
-    if (display === 'unknown') {
+    const parsed = parseDateText(String(date.display), log)
+    if (!parsed) {
       return null
     }
-    return String(date.display).trim()
+    return {
+      ...parsed,
+      earliest: date.earliest ?? parsed.earliest,
+      latest: date.latest ?? parsed.latest,
+    }
   }
 
-  // Number? Convert to string
+  // Number? A bare year
   if (typeof date === 'number') {
-    return date.toString()
+    return dateFromYear(date)
   }
 
-  // String? Use as-is (unless it's "unknown")
-  if (typeof date === 'string' && date.trim()) {
-    const normalized = date.trim().toLowerCase()
-    // Treat "unknown" as no data
-    if (normalized === 'unknown') {
-      return null
-    }
-    return date.trim()
+  // String? Parse free text (returns null for "unknown")
+  if (typeof date === 'string') {
+    return parseDateText(date, log)
   }
 
   return null
 }
 
+/**
+ * Parses a date string, logging why it was nulled or left without bounds
+ */
+function parseDateText(text: string, log: LogEvent): Item['date'] {
+  const parsed = parseDate(text)
+  if (!parsed) {
+    log(text.trim() === '' ? 'empty-nulled' : 'unknown-nulled', text, null)
+  } else if (parsed.earliest == null) {
+    log('date-unparseable', text, parsed)
+  }
+  return parsed
+}
+
 /**
  * Normalizes the materials field into a consistent string format
  *
  * Strategy:
  * 1. If array: join with ", "
- * 2. If string: use as-is
- * 3. If empty array or null: return null
+ * 2. If string: split on "," / ";" into individual materials
+ * 3. Map each material to its preferred term in the "materials" vocabulary, then join with ", "
+ * 4. If empty array or null: return null
  *
  * @param materials - Can be string, array of strings, empty array, or null
  * @returns Normalized materials string or null
  */
-function normalizeMaterials(materials: SampleMaterials): Item['materials'] {
+function normalizeMaterials(materials: SampleMaterials, log: LogEvent): Item['materials'] {
   if (materials == null) {
     return null
   }
 
   // Handle array
   if (Array.isArray(materials)) {
-    if (materials.length === 0) {
+    const parts = materials.filter((part: unknown) => typeof part === 'string' && part.trim() !== '')
+    if (parts.length === 0) {
+      log('empty-nulled', materials, null)
       return null
     }
-    return materials.join(', ')
+    log('array-joined', materials, parts.join(', '))
+    return normalizeTerms(parts, 'materials', log)?.join(', ') ?? null
   }
 
-  // Handle string
+  // Handle string - "pencil; paper" lists several materials
   if (typeof materials === 'string' && materials.trim()) {
-    return materials.trim()
+    return normalizeTerms(materials.split(/[,;]/), 'materials', log)?.join(', ') ?? null
   }
 
   return null
 }
 
 /**
- * Normalizes the dimensions field into a consistent string format
+ * Maps keywords, tags or materials to the preferred terms of a vocabulary
  *
  * Strategy:
- * 1. If has "display" field: use that
- * 2. Otherwise: build from h/w/d/l/diameter values
- * 3. If no useful data: return null
+ * 1. Keep non-empty strings only (trimmed)
+ * 2. Replace each value with its preferred term; values the thesaurus doesn't know are kept as-is
+ * 3. Drop values that map to a term already in the list ("toy" next to "toys")
+ *
+ * @param values - Raw list of terms
+ * @param vocabulary - Thesaurus section to map against (see vocabulary.ts)
+ * @returns Preferred terms in source order, or null if none are left
+ */
+function normalizeTerms(values: unknown[] | null | undefined, vocabulary: VocabularyName, log: LogEvent): string[] | null {
+  if (!Array.isArray(values)) {
+    return null
+  }
+
+  const terms: string[] = []
+  values.forEach(value => {
+    if (typeof value !== 'string' || value.trim() === '') return
+    const term = value.trim()
+    const preferred = preferredTerm(term, vocabulary)
+
+    if (preferred == null) {
+      log('term-unmapped', term, term)
+    } else if (preferred !== term) {
+      log('term-mapped', term, preferred)
+    }
+
+    const mapped = preferred ?? term
+    if (terms.includes(mapped)) {
+      log('duplicate-dropped', term, null)
+    } else {
+      terms.push(mapped)
+    }
+  })
+
+  return terms.length > 0 ? terms : null
+}
+
+/**
+ * Normalizes the dimensions field into structured, numeric dimensions
+ *
+ * Strategy:
+ * 1. Keep the display string unless it's a placeholder ("?", "unknown")
+ * 2. Read numeric values from h/w/d/l/diameter/wingspan, converting to centimeters
+ * 3. If there are no usable parts, parse numbers out of the display ("box: 12 × 8 × 4 in")
+ * 4. A display with no numbers becomes a descriptive category ("magazine", "reel", "deck")
+ * 5. If no values and no description: return null
  *
  * @param dimensions - Object with various dimension fields, or null
- * @returns Normalized dimensions string or null
+ * @returns Structured dimensions or null
  */
-function normalizeDimensions(dimensions: SampleDimensions): Item['dimensions'] {
-  if (!dimensions || typeof dimensions !== 'object' || Object.keys(dimensions).length === 0) {
+function normalizeDimensions(dimensions: SampleDimensions, log: LogEvent): Item['dimensions'] {
+  if (!dimensions || typeof dimensions !== 'object') {
+    return null
+  }
+
+  if (Object.keys(dimensions).length === 0) {
+    log('empty-nulled', dimensions, null)
     return null
   }
 
   // Check display field first (skip if it's a placeholder)
+  let display: string | null = null
   if (dimensions.display && typeof dimensions.display === 'string') {
-    const display = dimensions.display.trim().toLowerCase()
-    if (display && display !== '?' && display !== 'unknown') {
-      return dimensions.display.trim()
+    const lower = dimensions.display.trim().toLowerCase()
+    if (lower && lower !== '?' && lower !== 'unknown') {
+      display = dimensions.display.trim()
+    } else {
+      log('placeholder-display-ignored', dimensions.display, null)
     }
   }
 
+  // Values without a unit use the record's unit, then the display's, then inches
+  const statedUnit = dimensions.unit || (display ? parseDimensionText(display).unit : null)
+  const defaultUnit = statedUnit || DEFAULT_DIMENSION_UNIT
+  const parsedDisplay = display ? parseDimensionText(display, defaultUnit) : null
+
   // Build from individual dimension fields
-  const defaultUnit = dimensions.unit || ''
-
-  // Two formatting styles:
-  // - Standard (h/w/d/l): "H 32 in" (label before value)
-  // - Special (diameter/wingspan): "12 in diameter" (dimensionType after value)
-  const dimensionMap = [
-    { key: 'h' as const, label: 'H' },
-    { key: 'w' as const, label: 'W' },
-    { key: 'd' as const, label: 'D' },
-    { key: 'l' as const, label: 'L' },
-    { key: 'diameter' as const, dimensionType: 'diameter' },
-    { key: 'wingspan' as const, dimensionType: 'wingspan' }
+  const partAxes = [
+    { key: 'h' as const, axis: 'height' as const },
+    { key: 'w' as const, axis: 'width' as const },
+    { key: 'd' as const, axis: 'depth' as const },
+    { key: 'l' as const, axis: 'length' as const },
+    { key: 'diameter' as const, axis: 'diameter' as const },
+    { key: 'wingspan' as const, axis: 'wingspan' as const },
   ]
 
-  const parts = dimensionMap
+  let values: NonNullable<Item['dimensions']>['values'] = {}
+  let sourceUnit: string | null = null
+  let unitAssumed = false
+
+  partAxes
     .filter(({ key }) => dimensions[key] != null)
-    .map(({ key, label, dimensionType }) => {
-      const value = extractValue(dimensions[key], defaultUnit)
-      return dimensionType ? `${value} ${dimensionType}` : `${label} ${value}`
+    .forEach(({ key, axis }) => {
+      const measurement = extractMeasurement(dimensions[key], defaultUnit)
+      if (!measurement) {
+        // "?" placeholders (and anything else unreadable) are dropped
+        log('placeholder-part-dropped', dimensions[key], null)
+        return
+      }
+      values[axis] = measurement.cm
+      sourceUnit = sourceUnit ?? measurement.unit
+      unitAssumed = unitAssumed || (measurement.usedDefault && !statedUnit)
     })
-    .filter(part => part && !part.includes('?')) // Filter out "?" placeholders
 
-  return parts.length > 0 ? parts.join(' × ') : null
+  // No usable parts? Fall back to numbers in the display string
+  if (Object.keys(values).length === 0 && parsedDisplay && Object.keys(parsedDisplay.values).length > 0) {
+    values = parsedDisplay.values
+    sourceUnit = parsedDisplay.unit ?? defaultUnit
+    unitAssumed = !statedUnit
+    log('parsed-from-display', display, values)
+  }
+
+  if (unitAssumed) {
+    log('unit-assumed', dimensions, DEFAULT_DIMENSION_UNIT)
+  }
+
+  const hasValues = Object.keys(values).length > 0
+  const descriptive = display && parsedDisplay && Object.keys(parsedDisplay.values).length === 0 ? display : null
+
+  if (!hasValues && !descriptive) {
+    log('empty-nulled', dimensions, null)
+    return null
+  }
+
+  if (!hasValues) {
+    log('descriptive-only', display, descriptive)
+  }
+
+  return {
+    display,
+    values,
+    sourceUnit,
+    approximate: parsedDisplay?.approximate ?? false,
+    qualifier: parsedDisplay?.qualifier ?? null,
+    descriptive,
+  }
 }
 
 /**
  * Normalizes the flags field into a consistent format
  * Converts snake_case to camelCase and filters out any non-boolean flags
  */
-function normalizeFlags(flags: SampleFlags): Item['flags'] {
+function normalizeFlags(flags: SampleFlags, log: LogEvent): Item['flags'] {
   if (!flags || typeof flags !== 'object') {
     return null
   }
 
+  // Anything that isn't a boolean can't be trusted as a flag
+  Object.entries(flags)
+    .filter(([_, value]) => typeof value !== 'boolean')
+    .forEach(([key, value]) => log('non-boolean-dropped', { [key]: value }, null))
+
   const normalized: ItemFlags = {}
 
   // Map snake_case to camelCase
@@ -303,33 +482,45 @@ function normalizeFlags(flags: SampleFlags): Item['flags'] {
 
 /**
  * Normalizes the related field into a consistent array format
+ * References by slug are kept as-is; the relation graph (relations.ts) resolves them later
  */
-function normalizeRelated(related: SampleRelated): Item['related'] {
+function normalizeRelated(related: SampleRelated, log: LogEvent): Item['related'] {
   if (!Array.isArray(related) || related.length === 0) {
     return []
   }
 
   return related
-    .filter(item => item && item.type && item.object_id)
+    .filter(item => {
+      const hasTarget = Boolean(item?.object_id || item?.slug)
+      if (item && (!item.type || !hasTarget)) {
+        log('empty-nulled', item, null)
+      }
+      return item && item.type && hasTarget
+    })
     .map(item => ({
       type: item.type,
-      objectId: item.object_id as string // Safe: filtered for truthiness above
+      objectId: item.object_id || null,
+      slug: item.slug || null,
     }))
 }
 
 /**
  * Normalizes external IDs object (filters out all-null objects)
  */
-function normalizeExternalIds(value: SampleExternalIds): Item['externalIds'] {
+function normalizeExternalIds(value: SampleExternalIds, log: LogEvent): Item['externalIds'] {
   if (!value || typeof value !== 'object') {
     return null
   }
 
   const filtered: Record<string, string> = {}
   Object.keys(value).forEach(key => {
-    const typedKey = key as keyof SampleExternalIds
-    if (value[typedKey] != null && value[typedKey] !== '') {
-      filtered[key] = String(value[typedKey])
+    const id: unknown = value[key as keyof SampleExternalIds]
+    if (id == null || id === '') {
+      log('empty-nulled', { [key]: id }, null)
+    } else if (typeof id === 'string' || typeof id === 'number') {
+      filtered[key] = String(id)
+    } else {
+      log('non-scalar-dropped', { [key]: id }, null)
     }
   })
 
@@ -339,7 +530,7 @@ function normalizeExternalIds(value: SampleExternalIds): Item['externalIds'] {
 /**
  * Normalizes rights field (can be string or object)
  */
-function normalizeRights(value: SampleRights): Item['rights'] {
+function normalizeRights(value: SampleRights, log: LogEvent): Item['rights'] {
   if (!value) return null
 
   if (typeof value === 'string') {
@@ -347,6 +538,9 @@ function normalizeRights(value: SampleRights): Item['rights'] {
   }
 
   if (typeof value === 'object' && value.status) {
+    if (value.notes) {
+      log('notes-dropped', value, value.status)
+    }
     return value.status
   }
 
@@ -384,18 +578,28 @@ function normalizeSeries(value: SampleSeries): Item['series'] {
 }
 
 /**
- * Normalizes location field
+ * Merges the location object and the inventory location into one storage location
+ *
+ * Strategy:
+ * 1. Inventory location IDs are looked up in the location authority (see lookupLocation)
+ * 2. The location object's site and shelf win; the inventory location fills in the rest
+ *    unless the two disagree (see mergeLocation)
  */
-function normalizeLocation(value: SampleLocation): Item['location'] {
-  if (!value || typeof value !== 'object') {
-    return null
+function normalizeLocation(value: SampleLocation, inventoryLocation: SampleInventoryLocation, log: LogEvent): Item['location'] {
+  const placed = value && typeof value === 'object'
+    ? { site: normalizeString(value.site), shelf: normalizeString(value.shelf) }
+    : null
+
+  const code = typeof inventoryLocation === 'number' ? String(inventoryLocation) : normalizeString(inventoryLocation)
+  const inventory = code ? lookupLocation(code) : null
+  if (inventory?.code) {
+    log(inventory.site ? 'location-resolved' : 'location-unresolved', inventoryLocation, inventory.site ? inventory : null)
+  }
+  if (placed && inventory && !locationsAgree(placed, inventory)) {
+    log('location-conflict', inventoryLocation, placed)
   }
 
-  const location: { site?: string; shelf?: string } = {}
-  if (value.site) location.site = value.site
-  if (value.shelf) location.shelf = value.shelf
-
-  return Object.keys(location).length > 0 ? location : null
+  return mergeLocation(placed, inventory)
 }
 
 /**
@@ -413,38 +617,124 @@ function normalizeEdition(value: SampleEdition): Item['edition'] {
   return Object.keys(edition).length > 0 ? edition : null
 }
 
+/**
+ * Normalizes variants, treating "unknown" values like unknown creators and dates
+ *
+ * Strategy:
+ * 1. Read each variant property as text; "unknown" and empty values become null
+ * 2. Drop variants with nothing left
+ * 3. If no variants remain: return null
+ */
+function normalizeVariants(value: SampleVariants, log: LogEvent): Item['variants'] {
+  if (!Array.isArray(value)) {
+    return null
+  }
+
+  const variants = value.flatMap(raw => {
+    if (raw == null || typeof raw !== 'object') {
+      return []
+    }
+    const variant = Object.fromEntries(VARIANT_FIELDS.map(field => {
+      const text = normalizeString(raw[field])
+      if (text?.toLowerCase() === 'unknown') {
+        log('unknown-nulled', { [field]: raw[field] }, null)
+        return [field, null]
+      }
+      return [field, text]
+    })) as unknown as Variant
+
+    if (VARIANT_FIELDS.every(field => variant[field] == null)) {
+      log('empty-nulled', raw, null)
+      return []
+    }
+    return [variant]
+  })
+
+  return variants.length > 0 ? variants : null
+}
+
+/**
+ * Normalizes the ownership history into ProvenanceEvents (see provenance.ts)
+ * Entries with nothing usable are dropped; free-text entries are logged as split
+ */
+function normalizeProvenance(value: SampleProvenance, log: LogEvent): Item['provenance'] {
+  if (!Array.isArray(value)) {
+    return null
+  }
+
+  const events = value.flatMap(entry => {
+    const event = parseProvenanceEvent(entry)
+    if (!event) {
+      log('empty-nulled', entry, null)
+      return []
+    }
+    if (typeof entry === 'string') {
+      log('provenance-text-split', entry, event)
+    }
+    return [event]
+  })
+
+  return events.length > 0 ? events : null
+}
+
 
 /* ============================================================================
  * HELPER FUNCTIONS - Generic utilities used by normalizers
  * ========================================================================= */
 
 /**
- * Helper to extract a dimension value (handles both objects and primitives)
+ * Helper to read one dimension value as centimeters (handles both objects and primitives)
  * Examples:
- * - { value: 26, unit: "in" } → "26 in"
- * - "24 in" → "24 in"
- * - 26 → "26"
- * - 26 with defaultUnit "in" → "26 in"
+ * - { value: 26, unit: "in" } → 66.04 cm
+ * - "24 in" → 60.96 cm
+ * - 26 with defaultUnit "in" → 66.04 cm
+ * - "?" → null (placeholder)
  */
-function extractValue(val: DimensionValue | number | string | null | undefined, defaultUnit: string = ''): string {
+function extractMeasurement(
+  val: DimensionValue | number | string | null | undefined,
+  defaultUnit: string,
+): { cm: number; unit: string; usedDefault: boolean } | null {
   // Handle null/undefined early (shouldn't occur due to upstream filter, but guard for safety)
   if (val == null) {
-    return ''
+    return null
   }
 
-  // Handle object with value/unit properties
-  if (typeof val === 'object' && val.value != null) {
-    const unit = val.unit || defaultUnit
-    return `${val.value} ${unit}`.trim()
+  let value: number | null = null
+  let unit: string | null = null
+
+  if (typeof val === 'object' && typeof val.value === 'number') {
+    // Object with value/unit properties
+    value = val.value
+    unit = val.unit || null
+  } else if (typeof val === 'number') {
+    value = val
+  } else if (typeof val === 'string') {
+    // String with optional unit, e.g., "24 in" (placeholders like "?" don't match)
+    const match = val.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)?$/i)
+    if (match) {
+      value = Number(match[1])
+      unit = match[2] ?? null
+    }
   }
 
-  // Handle primitive with default unit
-  if (typeof val === 'number') {
-    return defaultUnit ? `${val} ${defaultUnit}`.trim() : String(val)
+  if (value == null) {
+    return null
   }
 
-  // Handle string (includes units already or is a placeholder)
-  return String(val)
+  const usedUnit = unit ?? defaultUnit
+  const cm = toCentimeters(value, usedUnit)
+  return cm == null ? null : { cm, unit: usedUnit, usedDefault: unit == null }
+}
+
+/**
+ * Recursively freezes an object so the preserved raw record can't be modified
+ */
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach(deepFreeze)
+    Object.freeze(value)
+  }
+  return value
 }
 
 /**
@@ -452,7 +742,8 @@ function extractValue(val: DimensionValue | number | string | null | undefined,
  * Accepts undefined from TypeScript optional properties, returns null for consistency
  */
 function normalizeString(value: string | null | undefined): string | null {
-  if (value == null || value.trim() === '') {
+  // typeof guard: records kept by "mark" validation may carry the wrong type here
+  if (typeof value !== 'string' || value.trim() === '') {
     return null
   }
   return value.trim()
@@ -463,7 +754,7 @@ function normalizeString(value: string | null | undefined): string | null {
  * Accepts undefined from TypeScript optional properties, returns null for consistency
  *
  * Generic function preserves array element types from input to output.
- * For example: string[] stays string[], Variant[] stays Variant[]
+ * For example: string[] stays string[]
  */
 function normalizeArray<T>(value: T[] | null | undefined): T[] | null {
   if (!Array.isArray(value) || value.length === 0) {
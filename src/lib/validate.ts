@@ -0,0 +1,246 @@
+/**
+ * Runtime Validation of Collection Exports
+ *
+ * Checks a raw export against the shapes described by the quicktype-generated
+ * types before anything is transformed. Problems are collected into a report
+ * (by object_id, field path and reason) instead of crashing the build.
+ * Records can be checked one at a time as a source is read (createExportValidator),
+ * or a whole parsed export at once (validateExport).
+ */
+
+import type { Record as SampleRecord } from '../scripts/quicktype-generated'
+import type { ExportMeta } from '../types/entry'
+import type { ValidationIssue, ValidationReport, ValidationStrictness } from '../types/validation'
+import { arrayOf, boolean, describeValue, nullable, number, object, oneOf, string } from './schema'
+
+/**
+ * Result of validating an export
+ */
+export interface ValidationResult {
+  meta: ExportMeta | null
+  records: SampleRecord[]     // records that made it through (valid, plus invalid ones in "mark" mode)
+  invalidIds: Set<string>     // object_ids of kept records that have issues
+  report: ValidationReport
+}
+
+/**
+ * One record that made it through validation
+ */
+export interface CheckedRecord {
+  record: SampleRecord
+  index: number      // position in the export's records array
+  invalid: boolean   // kept despite issues ("mark" strictness)
+}
+
+/**
+ * Validates an export one record at a time (see createExportValidator)
+ */
+export interface ExportValidator {
+  check: (record: unknown) => CheckedRecord | null                       // the record if it's kept, null if it's skipped
+  skip: (checked: CheckedRecord, path: string, reason: string) => void   // drop a kept record after all, reporting why
+  finish: (envelope: unknown) => Omit<ValidationResult, 'records'>       // the export without its records, e.g., { meta }
+}
+
+/* ============================================================================
+ * EXPORT SCHEMA - Mirrors the quicktype Record type, field by field
+ * ========================================================================= */
+
+const dimensionValue = object({ value: number, unit: string }, ['value'])
+const dimensionPart = nullable(oneOf(dimensionValue, number, string))
+
+const recordSchema = object({
+  object_id: string,
+  accession_number: nullable(string),
+  title: nullable(string),
+  creator: nullable(oneOf(string, arrayOf(string))),
+  date: nullable(oneOf(
+    object({ display: string, earliest: nullable(number), latest: nullable(number) }, ['display']),
+    number,
+    string,
+  )),
+  object_type: string,
+  department: string,
+  materials: nullable(oneOf(string, arrayOf(string))),
+  dimensions: nullable(object({
+    display: nullable(string),
+    h: dimensionPart,
+    w: dimensionPart,
+    d: dimensionPart,
+    l: dimensionPart,
+    diameter: dimensionPart,
+    wingspan: dimensionPart,
+    unit: string,
+  })),
+  tags: nullable(arrayOf(string)),
+  credit_line: nullable(string),
+  notes: nullable(arrayOf(string)),
+  provenance: nullable(arrayOf(oneOf(string, object({})))),
+  external_ids: object({
+    emuseum: nullable(string),
+    museumplus: nullable(string),
+    imdb: nullable(string),
+    internal_slug: nullable(string),
+  }),
+  description: nullable(string),
+  flags: object({
+    attribution_uncertain: boolean,
+    prototype: boolean,
+    possible_duplicate: boolean,
+    materials_incomplete: boolean,
+    needs_review: boolean,
+    missing_dimensions: boolean,
+    needs_research: boolean,
+  }),
+  condition: nullable(string),
+  keywords: nullable(arrayOf(string)),
+  related: arrayOf(object({ type: string, object_id: string, slug: string }, ['type'])),
+  geo: object({ country: nullable(string), region: nullable(string) }),
+  inventory_location: nullable(oneOf(number, string)),
+  rights: oneOf(string, object({ status: string, notes: nullable(string) })),
+  transcription: nullable(string),
+  series: object({ title: nullable(string), type: nullable(string) }),
+  location: object({ site: nullable(string), shelf: nullable(string) }),
+  variants: arrayOf(object({
+    color: nullable(string),
+    shell: nullable(string),
+    finish: nullable(string),
+    upholstery: nullable(string),
+    notes: nullable(string),
+  })),
+  edition: object({ number: nullable(oneOf(number, string)), notes: nullable(string) }),
+  status: nullable(string),
+}, ['object_id', 'accession_number', 'title', 'creator', 'date', 'object_type', 'department', 'materials', 'dimensions'])
+
+const metaSchema = object({ source: string, exportedAt: string }, ['source', 'exportedAt'])
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Validates a raw collection export
+ *
+ * @param data - Parsed JSON of the export (not yet trusted)
+ * @param strictness - What to do with invalid records
+ * @returns Usable records plus a report of every problem found
+ */
+export function validateExport(data: unknown, strictness: ValidationStrictness): ValidationResult {
+  const root = (describeValue(data) === 'object' ? data : {}) as { meta?: unknown; records?: unknown }
+  const validator = createExportValidator(strictness)
+  const records: SampleRecord[] = []
+
+  if (Array.isArray(root.records)) {
+    root.records.forEach(record => {
+      const checked = validator.check(record)
+      if (checked) records.push(checked.record)
+    })
+  }
+
+  return { ...validator.finish(root), records }
+}
+
+/**
+ * Validates an export as its records are read, so they never need to be held all at once
+ *
+ * Strategy:
+ * 1. Check every record against the schema as it arrives, collecting all problems
+ * 2. Records without a usable object_id are always skipped (nothing can refer to them)
+ * 3. Other invalid records are skipped or kept and marked, depending on strictness
+ * 4. Once all records are in, check the export envelope ({ meta, records }) - if records isn't
+ *    an array, nothing could be used. Its problems come first in the report
+ *
+ * @param strictness - What to do with invalid records
+ * @returns A validator - check each record in order, then finish with the rest of the export
+ */
+export function createExportValidator(strictness: ValidationStrictness): ExportValidator {
+  const issues: ValidationIssue[] = []
+  const invalidIds = new Set<string>()
+  let total = 0
+  let skipped = 0
+
+  return {
+    check(record) {
+      const index = total++
+      const problems = recordSchema.check(record, '')
+      const objectId = getObjectId(record)
+
+      if (problems.length === 0) {
+        return { record: record as SampleRecord, index, invalid: false }
+      }
+
+      problems.forEach(problem => issues.push({ objectId, index, ...problem }))
+
+      if (objectId == null || strictness === 'skip') {
+        skipped++
+        return null
+      }
+
+      invalidIds.add(objectId)
+      return { record: record as SampleRecord, index, invalid: true }
+    },
+
+    skip(checked, path, reason) {
+      issues.push({ objectId: checked.record.object_id, index: checked.index, path, reason })
+      skipped++
+    },
+
+    finish(envelope) {
+      const root = (describeValue(envelope) === 'object' ? envelope : {}) as { meta?: unknown; records?: unknown }
+
+      // Export-wide problems have no object_id or index
+      const metaProblems = metaSchema.check(root.meta, 'meta')
+      const exportIssues: ValidationIssue[] = metaProblems.map(problem => ({ objectId: null, index: null, ...problem }))
+
+      if (!Array.isArray(root.records)) {
+        exportIssues.push({ objectId: null, index: null, path: 'records', reason: `expected array, got ${describeValue(root.records)}` })
+        return {
+          meta: null,
+          invalidIds: new Set(),
+          report: { strictness, total: 0, valid: 0, invalid: 0, skipped: 0, issues: exportIssues },
+        }
+      }
+
+      const invalid = new Set(issues.map(issue => issue.index)).size
+
+      return {
+        meta: metaProblems.length === 0 ? root.meta as ExportMeta : null,
+        invalidIds,
+        report: { strictness, total, valid: total - invalid, invalid, skipped, issues: [...exportIssues, ...issues] },
+      }
+    },
+  }
+}
+
+/**
+ * Combines the reports of several sources into one
+ *
+ * @param reports - One report per source, in load order
+ * @param strictness - Strictness the sources were validated with
+ * @returns Summed counts and every issue, in source order
+ */
+export function mergeValidationReports(reports: ValidationReport[], strictness: ValidationStrictness): ValidationReport {
+  const sum = (key: 'total' | 'valid' | 'invalid' | 'skipped') => reports.reduce((n, report) => n + report[key], 0)
+  return {
+    strictness,
+    total: sum('total'),
+    valid: sum('valid'),
+    invalid: sum('invalid'),
+    skipped: sum('skipped'),
+    issues: reports.flatMap(report => report.issues),
+  }
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Reads object_id from an untrusted record, or null if it isn't a non-empty string
+ */
+function getObjectId(record: unknown): string | null {
+  if (describeValue(record) !== 'object') {
+    return null
+  }
+  const id = (record as { object_id?: unknown }).object_id
+  return typeof id === 'string' && id.trim() !== '' ? id : null
+}
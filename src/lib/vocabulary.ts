@@ -0,0 +1,104 @@
+/**
+ * Controlled Vocabulary
+ *
+ * Maps keywords, tags and individual materials to preferred terms using the
+ * local thesaurus in /src/data/vocabulary.json. Each preferred term may list
+ * alternate labels (synonyms, spelling variants) and a broader term.
+ *
+ * Terms are matched ignoring case, accents, spacing and punctuation, so
+ * "Mid-Century", "midcentury" and "mid century" are the same term without
+ * listing each spelling.
+ */
+
+import thesaurus from '../data/vocabulary.json'
+import type { TransformEvent } from '../types/audit'
+import type { UnmappedTerm, VocabularyName, VocabularyTerm } from '../types/vocabulary'
+
+/* ============================================================================
+ * TERM LOOKUPS - Built once from the thesaurus, keyed by termKey
+ * ========================================================================= */
+
+const sections: { [name in VocabularyName]: { [preferred: string]: VocabularyTerm } } = thesaurus
+
+// "midcentury" → "mid-century modern" (preferred terms map to themselves)
+const preferredTerms = {} as { [name in VocabularyName]: Map<string, string> }
+
+// "molded plywood" → "plywood"
+const broaderTermsOf = {} as { [name in VocabularyName]: Map<string, string> }
+
+Object.entries(sections).forEach(([name, terms]) => {
+  const preferred = new Map<string, string>()
+  const broader = new Map<string, string>()
+  Object.entries(terms).forEach(([term, entry]) => {
+    preferred.set(termKey(term), term)
+    entry.alternates?.forEach(alternate => preferred.set(termKey(alternate), term))
+    if (entry.broader) broader.set(term, entry.broader)
+  })
+  preferredTerms[name as VocabularyName] = preferred
+  broaderTermsOf[name as VocabularyName] = broader
+})
+
+/* ============================================================================
+ * PUBLIC API
+ * ========================================================================= */
+
+/**
+ * Looks up the preferred term for a value
+ *
+ * @param term - Keyword, tag or material as found in the source
+ * @param vocabulary - Thesaurus section to look in
+ * @returns The preferred term, or null if the thesaurus doesn't know the value
+ */
+export function preferredTerm(term: string, vocabulary: VocabularyName): string | null {
+  return preferredTerms[vocabulary].get(termKey(term)) ?? null
+}
+
+/**
+ * Broader terms of a preferred term, nearest first
+ * e.g., "molded plywood" → ["plywood", "wood"]
+ */
+export function broaderTerms(term: string, vocabulary: VocabularyName): string[] {
+  const chain: string[] = []
+  let broader = broaderTermsOf[vocabulary].get(term)
+  while (broader && !chain.includes(broader)) {
+    chain.push(broader)
+    broader = broaderTermsOf[vocabulary].get(broader)
+  }
+  return chain
+}
+
+/**
+ * Collects the values no preferred term was found for
+ *
+ * @param events - Audit trail from transformRecords ('term-unmapped' events are used)
+ * @returns One entry per field and value, most frequent first
+ */
+export function findUnmappedTerms(events: TransformEvent[]): UnmappedTerm[] {
+  const groups = new Map<string, UnmappedTerm>()
+  events
+    .filter(event => event.rule === 'term-unmapped')
+    .forEach(event => {
+      const term = String(event.input)
+      const key = `${event.field}:${termKey(term)}`
+      const group = groups.get(key) ?? { field: event.field, term, count: 0, objectIds: [] }
+      if (!group.objectIds.includes(event.objectId)) {
+        group.objectIds.push(event.objectId)
+        group.count++
+      }
+      groups.set(key, group)
+    })
+
+  return [...groups.values()].sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Matching key: lowercase, without accents, spaces or punctuation
+ * e.g., "Papier-Mâché" → "papiermache"
+ */
+function termKey(term: string): string {
+  return term.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+}
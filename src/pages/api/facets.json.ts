@@ -0,0 +1,16 @@
+/**
+ * Facets API Endpoint
+ *
+ * GET /api/facets.json - filter values and counts across the published items,
+ * with English labels (the values are what /api/items.json filters on).
+ */
+import type { APIRoute } from 'astro'
+import { jsonResponse } from '../../lib/api'
+import { loadSearchIndex } from '../../lib/collection'
+import { buildFacets } from '../../lib/search'
+import type { FacetsResponse } from '../../types/api'
+
+export const GET: APIRoute = async () => {
+  const body: FacetsResponse = { data: buildFacets(await loadSearchIndex()) }
+  return jsonResponse(body)
+}
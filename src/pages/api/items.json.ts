@@ -0,0 +1,22 @@
+/**
+ * Items API Endpoint
+ *
+ * GET /api/items.json - published items as JSON, filtered and paged (see api.ts).
+ * Prerendered as one static file with every item; the query string only
+ * applies when served by the Node server (see README).
+ */
+import type { APIRoute } from 'astro'
+import { errorResponse, jsonResponse, parseItemsQuery, queryItems, staticItemsQuery } from '../../lib/api'
+import { loadPublishedCollection, loadSearchIndex } from '../../lib/collection'
+
+export const GET: APIRoute = async ({ url, isPrerendered }) => {
+  const { entries } = await loadPublishedCollection()
+  const items = entries.map(entry => entry.item)
+
+  const parsed = isPrerendered ? { query: staticItemsQuery(items.length) } : parseItemsQuery(url.searchParams)
+  if ('error' in parsed) return errorResponse(400, parsed.error)
+
+  const result = queryItems(items, parsed.query, url.pathname, await loadSearchIndex())
+  if ('error' in result) return errorResponse(400, result.error)
+  return jsonResponse(result.page)
+}
@@ -0,0 +1,28 @@
+/**
+ * Item API Endpoint
+ *
+ * GET /api/items/[id].json - one published item as JSON, or a 404 error body.
+ * Prerendered once per item; ?fields= only applies when served by the Node server.
+ */
+import type { APIRoute } from 'astro'
+import { errorResponse, jsonResponse, parseFields, selectFields } from '../../../lib/api'
+import { loadPublishedCollection } from '../../../lib/collection'
+import type { ItemResponse } from '../../../types/api'
+import type { Item } from '../../../types/item'
+
+export async function getStaticPaths() {
+  const { entries } = await loadPublishedCollection()
+  return entries.map(entry => ({ params: { id: entry.item.id }, props: { item: entry.item } }))
+}
+
+export const GET: APIRoute = async ({ params, props, url, isPrerendered }) => {
+  // Prerendered, the item comes from getStaticPaths; the server looks it up
+  const item: Item | undefined = props.item ?? (await loadPublishedCollection()).entries.find(entry => entry.item.id === params.id)?.item
+  if (!item) return errorResponse(404, `no published item "${params.id}"`)
+
+  const selected = parseFields(isPrerendered ? null : url.searchParams.get('fields'))
+  if ('error' in selected) return errorResponse(400, selected.error)
+
+  const body: ItemResponse = { data: selectFields(item, selected.fields) }
+  return jsonResponse(body)
+}
@@ -0,0 +1,11 @@
+/**
+ * API Schema Endpoint
+ *
+ * GET /api/schema.json - JSON Schema of the API responses, generated from
+ * /src/types/api.ts (see README).
+ */
+import type { APIRoute } from 'astro'
+import { jsonResponse } from '../../lib/api'
+import schema from '../../data/api-schema.json'
+
+export const GET: APIRoute = () => jsonResponse(schema)
@@ -0,0 +1,15 @@
+/**
+ * CSV Export Endpoint
+ *
+ * Written to /exports/collection.csv at build time.
+ */
+import type { APIRoute } from 'astro'
+import { loadPublishedCollection } from '../../lib/collection'
+import { toCsv } from '../../lib/export'
+
+export const GET: APIRoute = async () => {
+  const { entries } = await loadPublishedCollection()
+  return new Response(toCsv(entries.map(entry => entry.item)), {
+    headers: { 'Content-Type': 'text/csv; charset=utf-8' },
+  })
+}
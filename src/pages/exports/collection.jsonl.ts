@@ -0,0 +1,15 @@
+/**
+ * JSON Lines Export Endpoint
+ *
+ * Written to /exports/collection.jsonl at build time.
+ */
+import type { APIRoute } from 'astro'
+import { loadPublishedCollection } from '../../lib/collection'
+import { toJsonLines } from '../../lib/export'
+
+export const GET: APIRoute = async () => {
+  const { entries } = await loadPublishedCollection()
+  return new Response(toJsonLines(entries.map(entry => entry.item)), {
+    headers: { 'Content-Type': 'application/jsonl; charset=utf-8' },
+  })
+}
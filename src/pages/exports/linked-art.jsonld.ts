@@ -0,0 +1,15 @@
+/**
+ * Linked Art JSON-LD Export Endpoint
+ *
+ * Written to /exports/linked-art.jsonld at build time.
+ */
+import type { APIRoute } from 'astro'
+import { loadPublishedCollection } from '../../lib/collection'
+import { toLinkedArtJson } from '../../lib/export'
+
+export const GET: APIRoute = async () => {
+  const { entries } = await loadPublishedCollection()
+  return new Response(toLinkedArtJson(entries.map(entry => entry.item)), {
+    headers: { 'Content-Type': 'application/ld+json; charset=utf-8' },
+  })
+}
@@ -0,0 +1,15 @@
+/**
+ * Search Index Endpoint
+ *
+ * Written to /search-index.json at build time. The collection filters fetch
+ * it the first time they're used, so grid pages don't carry an index of the
+ * whole collection (see CollectionFilters.astro).
+ */
+import type { APIRoute } from 'astro'
+import { loadSearchIndex } from '../lib/collection'
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify(await loadSearchIndex()), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  })
+}
@@ -0,0 +1,149 @@
+/**
+ * Build Benchmark Command
+ *
+ * Builds the site from a synthetic export (see synthetic-export.ts) and reports
+ * how long the build took and how heavy its pages are, as a Markdown table
+ * (or JSON with --json), e.g.:
+ *
+ *   npm run benchmark -- --records 5000
+ *
+ * The export and the build go in .benchmark/; an export is reused by later runs with the same count.
+ */
+
+import { spawn } from 'node:child_process'
+import { existsSync } from 'node:fs'
+import { mkdir, readdir, readFile, stat } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { gzipSync } from 'node:zlib'
+import { writeSyntheticExport } from './synthetic-export'
+
+const WORK_DIR = '.benchmark'
+const DEFAULT_RECORDS = 50000
+
+const args = process.argv.slice(2)
+const json = args.includes('--json')
+const recordsArg = args.includes('--records') ? args[args.indexOf('--records') + 1] : String(DEFAULT_RECORDS)
+const records = Number(recordsArg)
+
+if (!Number.isInteger(records) || records < 1) {
+  console.error('Usage: npm run benchmark -- [--records <count>] [--json]')
+  process.exit(1)
+}
+
+await mkdir(WORK_DIR, { recursive: true })
+const exportPath = resolve(WORK_DIR, `export-${records}.json`)
+const distDir = join(WORK_DIR, 'dist')
+
+let generateSeconds = 0
+if (!existsSync(exportPath)) {
+  const started = performance.now()
+  await writeSyntheticExport(exportPath, records)
+  generateSeconds = (performance.now() - started) / 1000
+}
+
+const started = performance.now()
+const { code, output } = await run('npx', ['astro', 'build', '--outDir', distDir], { ...process.env, COLLECTION_EXPORT: exportPath })
+const buildSeconds = (performance.now() - started) / 1000
+if (code !== 0) {
+  console.error(output)
+  console.error(`Build failed (exit code ${code})`)
+  process.exit(1)
+}
+
+const files = await listFiles(distDir)
+const htmlFiles = files.filter(file => file.endsWith('.html'))
+const firstPage = await pageWeight(distDir, join(distDir, 'index.html'))
+const cards = await averageSize(htmlFiles.filter(file => file.includes(`${join(distDir, 'cards')}/`)))
+const details = await averageSize(htmlFiles.filter(file => file.includes(`${join(distDir, 'objects')}/`)))
+
+const result = {
+  records,
+  generateSeconds: round(generateSeconds),
+  buildSeconds: round(buildSeconds),
+  htmlPages: htmlFiles.length,
+  distBytes: (await Promise.all(files.map(file => stat(file)))).reduce((sum, info) => sum + info.size, 0),
+  firstPageBytes: firstPage.raw,
+  firstPageGzipBytes: firstPage.gzip,
+  searchIndexBytes: (await stat(join(distDir, 'search-index.json'))).size,
+  averageCardBytes: cards,
+  averageDetailBytes: details,
+}
+
+if (json) {
+  process.stdout.write(JSON.stringify(result, null, 2) + '\n')
+} else {
+  process.stdout.write([
+    `## Build benchmark (${records.toLocaleString('en-US')} records)`,
+    '',
+    '| Measure | Value |',
+    '| --- | --- |',
+    `| Export generated | ${generateSeconds ? `${result.generateSeconds} s` : 'reused'} |`,
+    `| Build time | ${result.buildSeconds} s |`,
+    `| HTML pages | ${result.htmlPages.toLocaleString('en-US')} |`,
+    `| Total output | ${formatBytes(result.distBytes)} |`,
+    `| First grid page (HTML, CSS, JS) | ${formatBytes(result.firstPageBytes)} (${formatBytes(result.firstPageGzipBytes)} gzipped) |`,
+    `| Search index | ${formatBytes(result.searchIndexBytes)} |`,
+    `| Card fragment (average) | ${formatBytes(result.averageCardBytes)} |`,
+    `| Detail page (average) | ${formatBytes(result.averageDetailBytes)} |`,
+    '',
+  ].join('\n'))
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+/**
+ * Runs a command to completion, collecting its output rather than streaming it
+ */
+function run(command: string, commandArgs: string[], env: NodeJS.ProcessEnv): Promise<{ code: number | null, output: string }> {
+  return new Promise((done, fail) => {
+    const child = spawn(command, commandArgs, { env, stdio: ['ignore', 'pipe', 'pipe'] })
+    let output = ''
+    child.stdout.on('data', chunk => { output += chunk })
+    child.stderr.on('data', chunk => { output += chunk })
+    child.on('error', fail)
+    child.on('close', code => done({ code, output }))
+  })
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const nested = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name)
+    return entry.isDirectory() ? listFiles(path) : Promise.resolve([path])
+  }))
+  return nested.flat()
+}
+
+/**
+ * What a browser downloads to show a page: its HTML plus the stylesheets and
+ * scripts it links to from /_astro/ (not the search index or card fragments,
+ * which are only fetched once the visitor filters or opens a card)
+ */
+async function pageWeight(distDir: string, htmlFile: string): Promise<{ raw: number, gzip: number }> {
+  const html = await readFile(htmlFile, 'utf8')
+  const assets = [...new Set([...html.matchAll(/(?:href|src)="(\/_astro\/[^"]+\.(?:css|js))"/g)].map(match => match[1]))]
+  const contents = [Buffer.from(html), ...await Promise.all(assets.map(asset => readFile(join(distDir, asset))))]
+  return {
+    raw: contents.reduce((sum, content) => sum + content.length, 0),
+    gzip: contents.reduce((sum, content) => sum + gzipSync(content).length, 0),
+  }
+}
+
+async function averageSize(files: string[]): Promise<number> {
+  if (files.length === 0) return 0
+  const sizes = await Promise.all(files.map(file => stat(file)))
+  return Math.round(sizes.reduce((sum, info) => sum + info.size, 0) / files.length)
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 10) / 10
+}
@@ -0,0 +1,124 @@
+/**
+ * Accessibility Check Command
+ *
+ * Runs axe-core's WCAG 2.2 A/AA rules over every page of the built site (and
+ * every card fragment, checked inside a minimal page of its own) and
+ * checks the contrast of the text/background color pairs in tokens.css
+ * (jsdom has no layout, so axe can't measure contrast itself), e.g.:
+ *
+ *   npm run build && npm run a11y
+ *
+ * Exits with status 1 if anything fails.
+ */
+
+import { readdir, readFile } from 'node:fs/promises'
+import { join, relative, sep } from 'node:path'
+import axe from 'axe-core'
+import { JSDOM, VirtualConsole } from 'jsdom'
+
+// axe rule tags for WCAG 2.0, 2.1 and 2.2, levels A and AA
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa']
+
+// Normal-size text needs 4.5:1 (WCAG 1.4.3)
+const MIN_CONTRAST = 4.5
+
+// Text tokens and the backgrounds they're drawn on
+const TOKEN_PAIRS: [text: string, backgrounds: string[]][] = [
+  ['color-text-primary', ['color-card-bg', 'color-bg']],
+  ['color-text-secondary', ['color-card-bg', 'color-bg']],
+  ['color-text-muted', ['color-card-bg', 'color-bg']],
+  ...['duplicate', 'prototype', 'research', 'review', 'uncertain', 'incomplete', 'missing', 'invalid']
+    .map((flag): [string, string[]] => [`flag-${flag}-text`, [`flag-${flag}-bg`, 'color-card-bg']]),
+]
+
+const distDir = process.argv[2] ?? 'dist'
+const failures: string[] = []
+
+const pages = (await htmlFiles(distDir)).sort()
+if (pages.length === 0) {
+  console.error(`No HTML files in ${distDir} - run npm run build first`)
+  process.exit(1)
+}
+
+for (const file of pages) {
+  const path = `/${relative(distDir, file).split(sep).join('/')}`
+  // A silent console: axe probes canvas support, which jsdom reports as "not implemented"
+  const dom = new JSDOM(asDocument(await readFile(file, 'utf8')), {
+    url: `http://localhost${path}`,
+    runScripts: 'outside-only',
+    virtualConsole: new VirtualConsole(),
+  })
+  dom.window.eval(axe.source)
+  const results = await (dom.window as unknown as { axe: typeof axe }).axe.run(dom.window.document, {
+    runOnly: { type: 'tag', values: WCAG_TAGS },
+  })
+  results.violations.forEach(violation => {
+    const targets = violation.nodes.slice(0, 3).map(node => node.target.join(' ')).join(', ')
+    failures.push(`${path}: ${violation.id} (${violation.impact}) - ${violation.help} [${violation.nodes.length}× e.g. ${targets}]`)
+  })
+  dom.window.close()
+}
+
+const tokens = parseTokens(await readFile('src/styles/tokens.css', 'utf8'))
+TOKEN_PAIRS.forEach(([text, backgrounds]) => {
+  backgrounds.forEach(background => {
+    const ratio = contrastRatio(tokens[text], tokens[background])
+    if (ratio < MIN_CONTRAST) {
+      failures.push(`tokens.css: --${text} on --${background} has contrast ${ratio.toFixed(2)}:1 (needs ${MIN_CONTRAST}:1)`)
+    }
+  })
+})
+
+if (failures.length > 0) {
+  console.error(failures.join('\n'))
+  console.error(`\n${failures.length} accessibility problems in ${pages.length} pages`)
+  process.exit(1)
+}
+console.log(`${pages.length} pages and ${TOKEN_PAIRS.length} color tokens pass WCAG 2.2 AA checks`)
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+async function htmlFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => [])
+  const nested = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) return htmlFiles(path)
+    return Promise.resolve(entry.name.endsWith('.html') ? [path] : [])
+  }))
+  return nested.flat()
+}
+
+/**
+ * Partial pages (the card fragments dialogs load, see cards/[id].astro) are
+ * wrapped in a minimal document, so axe checks the fragment, not the missing page around it
+ */
+function asDocument(html: string): string {
+  if (/^\s*<!doctype/i.test(html)) return html
+  return `<!DOCTYPE html><html lang="en"><head><title>Fragment</title></head><body><main>${html}</main></body></html>`
+}
+
+/**
+ * Hex color custom properties, e.g., { "color-bg": "#f5f5f5" }
+ */
+function parseTokens(css: string): { [name: string]: string } {
+  return Object.fromEntries([...css.matchAll(/--([\w-]+):\s*(#[0-9a-f]{3,6})\b/gi)].map(match => [match[1], match[2]]))
+}
+
+/**
+ * WCAG contrast ratio of two hex colors (1 to 21)
+ */
+function contrastRatio(a: string, b: string): number {
+  const [lighter, darker] = [luminance(a), luminance(b)].sort((x, y) => y - x)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+function luminance(hex: string): number {
+  const digits = hex.slice(1).length === 3 ? [...hex.slice(1)].map(digit => digit + digit).join('') : hex.slice(1)
+  const [r, g, b] = [0, 2, 4].map(i => {
+    const channel = parseInt(digits.slice(i, i + 2), 16) / 255
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
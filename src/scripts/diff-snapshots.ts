@@ -0,0 +1,25 @@
+/**
+ * Snapshot Diff Command
+ *
+ * Compares two collection export JSON files and prints what changed as a
+ * Markdown report (or JSON with --json), e.g.:
+ *
+ *   npm run diff -- exports/2026-01.json exports/2026-02.json > changes.md
+ */
+
+import { readFile } from 'node:fs/promises'
+import { diffSnapshots, formatSnapshotDiff } from '../lib/snapshot-diff'
+
+const args = process.argv.slice(2)
+const json = args.includes('--json')
+const files = args.filter(arg => !arg.startsWith('--'))
+
+if (files.length !== 2) {
+  console.error('Usage: npm run diff -- <older.json> <newer.json> [--json]')
+  process.exit(1)
+}
+
+const [before, after] = await Promise.all(files.map(async file => JSON.parse(await readFile(file, 'utf8')) as unknown))
+const diff = diffSnapshots(before, after)
+
+process.stdout.write(json ? JSON.stringify(diff, null, 2) + '\n' : formatSnapshotDiff(diff))
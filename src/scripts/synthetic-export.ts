@@ -0,0 +1,101 @@
+/**
+ * Synthetic Collection Export
+ *
+ * Generates large exports in the shape of collection.json for the benchmark
+ * (see benchmark.ts). Each record takes its fields from one of the sample
+ * records in turn, so every messy field shape the normalizers handle shows up
+ * in the same proportions, but gets its own id, accession number, title and
+ * external IDs - the copies shouldn't all look like duplicates of each other.
+ * Output is deterministic for a given count.
+ */
+
+import { once } from 'node:events'
+import { createWriteStream } from 'node:fs'
+import collection from '../data/collection.json'
+
+const TEMPLATES = collection.records as { [field: string]: unknown }[]
+
+// Title parts - combined into titles like "Walnut Side Chair for Herman Miller (No. 1042)"
+const QUALIFIERS = ['Molded Plywood', 'Fiberglass', 'Wire', 'Aluminum', 'Walnut', 'Printed', 'Hand-Painted', 'Prototype', 'Study for', 'Exhibition', 'Promotional', 'Experimental']
+const FORMS = ['Lounge Chair', 'Side Chair', 'Stool', 'Table', 'Storage Unit', 'Screen', 'Poster', 'Photograph', 'Letter', 'Toy', 'Film Still', 'Sketch', 'Model', 'Textile', 'Catalog', 'Drawing', 'Desk']
+const CLIENTS = ['for Herman Miller', 'for Vitra', 'for IBM', 'for the Case Study House', 'for the Moscow Fair', 'for Polaroid', 'for Westinghouse', '']
+
+/**
+ * The records of a synthetic export, one at a time
+ *
+ * @param count - Number of records
+ */
+export function* syntheticRecords(count: number): Generator<{ [field: string]: unknown }> {
+  const random = seededRandom(count)
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)]
+
+  for (let n = 0; n < count; n++) {
+    const template = TEMPLATES[n % TEMPLATES.length]
+    const batch = Math.floor(n / TEMPLATES.length)
+    const title = [pick(QUALIFIERS), pick(FORMS), pick(CLIENTS), `(No. ${n + 1})`].filter(Boolean).join(' ')
+
+    yield {
+      ...template,
+      object_id: syntheticId(n),
+      accession_number: template.accession_number == null ? null : `${1990 + (batch % 35)}.${batch + 1}.${(n % TEMPLATES.length) + 1}`,
+      title: template.title == null ? null : title,
+      // Links stay within the same copy of the sample records (dangling links stay dangling)
+      ...(Array.isArray(template.related) && {
+        related: template.related.map((rel: { object_id?: string }) => {
+          const target = TEMPLATES.findIndex(other => other.object_id === rel.object_id)
+          return target === -1 ? rel : { ...rel, object_id: syntheticId(batch * TEMPLATES.length + target) }
+        }),
+      }),
+      ...(isObject(template.external_ids) && {
+        external_ids: Object.fromEntries(Object.entries(template.external_ids).map(([key, value]) => [key, value == null ? null : `${value}-${n + 1}`])),
+      }),
+    }
+  }
+}
+
+/**
+ * Writes a synthetic export to a file, one record at a time
+ *
+ * @param path - File to write
+ * @param count - Number of records
+ */
+export async function writeSyntheticExport(path: string, count: number): Promise<void> {
+  const file = createWriteStream(path, { encoding: 'utf8' })
+  const meta = { source: `Synthetic benchmark export (${count} records)`, exportedAt: '2026-01-20T00:00:00Z' }
+  file.write(`{"meta":${JSON.stringify(meta)},"records":[\n`)
+
+  let first = true
+  for (const record of syntheticRecords(count)) {
+    const ok = file.write(`${first ? '' : ',\n'}${JSON.stringify(record)}`)
+    first = false
+    if (!ok) await once(file, 'drain')
+  }
+
+  file.end('\n]}\n')
+  await once(file, 'finish')
+}
+
+/* ============================================================================
+ * HELPERS
+ * ========================================================================= */
+
+function syntheticId(n: number): string {
+  return `SYN-${String(n + 1).padStart(6, '0')}`
+}
+
+function isObject(value: unknown): value is { [key: string]: string | null } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Small deterministic random number generator (mulberry32), so the same count gives the same export
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Type definitions for the JSON API
+ *
+ * Response bodies of the read-only endpoints under /api (see api.ts).
+ * The JSON Schema published at /api/schema.json (src/data/api-schema.json)
+ * is generated from this file - regenerate it after changing these types or
+ * Item (see README).
+ */
+
+import type { Item } from './item'
+import type { FilterState, Facets } from './search'
+
+/**
+ * Where the next page of a list starts
+ */
+export interface PageInfo {
+  limit: number              // items per page
+  total: number              // items matching the filters, across all pages
+  nextCursor: string | null  // pass as ?cursor= for the next page (null on the last page)
+  next: string | null        // URL of the next page, with the same filters
+}
+
+/**
+ * An Item as returned with ?fields=: only the selected fields, and always the id
+ * (every field when fields is left out)
+ */
+export type SelectedItem = Pick<Item, 'id'> & Partial<Item>
+
+/**
+ * GET /api/items.json
+ * With ?fields=, each item only has the selected fields (id is always included)
+ */
+export interface ItemsResponse {
+  data: SelectedItem[]
+  page: PageInfo
+}
+
+/**
+ * GET /api/items/[id].json
+ * Also takes ?fields=
+ */
+export interface ItemResponse {
+  data: SelectedItem
+}
+
+/**
+ * GET /api/facets.json - counts over the whole collection
+ */
+export interface FacetsResponse {
+  data: Facets
+}
+
+/**
+ * Body of every 4xx response
+ */
+export interface ErrorResponse {
+  error: {
+    status: number
+    message: string  // what was wrong with the request, e.g., 'unknown field "titel"'
+  }
+}
+
+/**
+ * A parsed /api/items.json request
+ */
+export interface ItemsQuery {
+  filters: FilterState
+  fields: (keyof Item)[] | null  // null returns every field
+  limit: number
+  cursor: string | null
+}
@@ -0,0 +1,58 @@
+/**
+ * Type definitions for the TRANSFORMATION AUDIT TRAIL
+ *
+ * Records which normalization rule fired for which field, so it's visible
+ * what the pipeline changed or threw away.
+ */
+
+/**
+ * Normalization rules that can fire during transformRecord
+ */
+export type TransformRule =
+  | 'title-fallback'               // missing title replaced with "Unknown Title"
+  | 'unknown-nulled'               // "unknown" / "Unknown" placeholder treated as no data
+  | 'empty-nulled'                 // empty string, array or object treated as no data
+  | 'joint-name-split'             // "Charles and Ray Eames" split into individual creators
+  | 'alias-applied'                // creator name replaced with its canonical form
+  | 'uncertain-marker'             // trailing "?" stripped and creator marked uncertain
+  | 'duplicate-dropped'            // creator or term listed twice under the same canonical name
+  | 'date-unparseable'             // date display kept, but no year bounds could be inferred
+  | 'array-joined'                 // list of values joined into one string
+  | 'placeholder-display-ignored'  // dimensions display was "?" or "unknown"
+  | 'placeholder-part-dropped'     // individual "?" dimension part filtered out
+  | 'parsed-from-display'          // dimension values read from the display string ("box: 12 × 8 × 4 in")
+  | 'descriptive-only'             // dimensions kept as a category with no measurement ("magazine")
+  | 'unit-assumed'                 // dimension values had no unit, so inches were assumed
+  | 'non-boolean-dropped'          // flag with a non-true value discarded
+  | 'non-scalar-dropped'           // external ID that isn't a string or number discarded
+  | 'flag-inferred'                // flag derived from the data by a rule in flag-rules.ts
+  | 'notes-dropped'                // object-valued rights reduced to its status
+  | 'provenance-text-split'        // free-text provenance line split into owner, date, method and note
+  | 'term-mapped'                  // keyword, tag or material replaced with its preferred vocabulary term
+  | 'term-unmapped'                // keyword, tag or material not in the vocabulary (kept as-is)
+  | 'location-resolved'            // inventory location ID looked up in the location authority
+  | 'location-unresolved'          // inventory location ID not in the location authority (kept as a code)
+  | 'location-conflict'            // location object and inventory location disagree (location object kept)
+
+/**
+ * A single rule firing for one field of one record
+ */
+export interface TransformEvent {
+  objectId: string   // record the event belongs to
+  field: string      // Item field name, e.g., "date" or "related"
+  rule: TransformRule
+  input: unknown     // raw value the rule looked at
+  output: unknown    // value it produced (null when data was dropped)
+}
+
+/**
+ * Collection-level count of one field/rule combination
+ * e.g., { field: 'date', rule: 'unknown-nulled', count: 12, message: '12 dates nulled as unknown' }
+ */
+export interface TransformSummaryEntry {
+  field: string
+  rule: TransformRule
+  count: number
+  objectIds: string[]  // records the rule fired for
+  message: string      // human-readable summary line
+}
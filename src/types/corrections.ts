@@ -0,0 +1,41 @@
+/**
+ * Type definitions for CURATOR CORRECTIONS
+ *
+ * When a normalizer gets a record wrong, a curator overrides the normalized
+ * value in /src/data/corrections.json instead of editing the export or the
+ * transform. Corrections are keyed by object_id and Item field.
+ */
+
+/**
+ * One override as written in the corrections file
+ */
+export interface Correction {
+  value: unknown   // replacement, in the Item field's shape (e.g., Creator[] for "creators")
+  author: string   // who made the correction
+  date: string     // when, e.g., "2026-03-02"
+  reason: string   // why the normalized value was wrong
+}
+
+/**
+ * The corrections file: object_id → Item field → correction
+ */
+export type CorrectionsFile = { [objectId: string]: { [field: string]: Correction } }
+
+/**
+ * Why a correction wasn't applied
+ */
+export type CorrectionProblem =
+  | 'unknown-object'       // no object with this object_id in the collection
+  | 'unknown-field'        // not an Item field (or one that can't be overridden, like "id")
+  | 'missing-attribution'  // author, date or reason is missing
+  | 'type-mismatch'        // value doesn't match the field's normalized type (e.g., a string for "creators")
+  | 'unchanged'            // the transform already produces this value - the correction can go
+
+/**
+ * A correction that was reported instead of applied
+ */
+export interface CorrectionIssue {
+  objectId: string
+  field: string
+  reason: CorrectionProblem
+}
@@ -0,0 +1,49 @@
+/**
+ * Type definitions for DUPLICATE DETECTION
+ *
+ * Candidate duplicate pairs are scored from several independent signals,
+ * then grouped into clusters for a curator to review side by side.
+ */
+
+/**
+ * Fields that contribute to a duplicate score
+ */
+export type DuplicateSignalField = 'title' | 'creators' | 'date' | 'accessionNumber' | 'externalIds'
+
+/**
+ * How strongly one field suggests two items are the same object
+ * Only fields both items have produce a signal
+ */
+export interface DuplicateSignal {
+  field: DuplicateSignalField
+  similarity: number   // 0 (different) to 1 (identical)
+  weight: number       // share of the overall score
+  detail: string       // human-readable reason, e.g., 'titles 92% similar'
+}
+
+/**
+ * A scored pair of items
+ */
+export interface DuplicatePair {
+  ids: [string, string]
+  score: number               // weighted mean of the signals, 0 to 1
+  signals: DuplicateSignal[]
+}
+
+/**
+ * A group of items that may all be the same object
+ */
+export interface DuplicateCluster {
+  ids: string[]           // in collection order
+  pairs: DuplicatePair[]  // the pairs that linked the cluster together
+  score: number           // highest pair score in the cluster
+  flagged: string[]       // members flagged possibleDuplicate in the source
+}
+
+/**
+ * Result of a detection pass
+ */
+export interface DuplicateReport {
+  clusters: DuplicateCluster[]  // strongest first
+  unmatched: string[]           // flagged possibleDuplicate, but no candidate found
+}
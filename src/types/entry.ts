@@ -0,0 +1,30 @@
+/**
+ * Type definitions for VERSIONED COLLECTION ENTRIES
+ *
+ * Wraps each normalized Item together with the untouched source record it
+ * came from, so the original data is available for re-processing and
+ * debugging without reloading the export (in the internal edition).
+ */
+
+import type { Record as SampleRecord } from '../scripts/quicktype-generated'
+import type { Item } from './item'
+
+/**
+ * Export metadata carried by every collection export
+ * quicktype types exportedAt as Date, but parsed JSON only ever carries the ISO string
+ */
+export interface ExportMeta {
+  source: string      // name of the exporting system
+  exportedAt: string  // ISO timestamp of the export
+}
+
+/**
+ * A normalized Item plus everything needed to reproduce it
+ */
+export interface CollectionEntry {
+  item: Item                     // normalized output
+  raw: SampleRecord | null       // source record exactly as exported (deep copy, frozen) - null in the public edition
+  transformVersion: string       // TRANSFORM_VERSION that produced item
+  meta: ExportMeta | null        // export the record came from (null if the export had no valid meta)
+  source: string                 // id of the configured source it was ingested from (see config.ts)
+}
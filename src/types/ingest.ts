@@ -0,0 +1,51 @@
+/**
+ * Type definitions for the INGEST LAYER
+ *
+ * Every source system's export is read by an adapter that maps it into the
+ * shared raw export shape ({ meta, records } with quicktype-style records),
+ * so validation and normalization never need to know where data came from.
+ */
+
+/**
+ * Formats an adapter exists for
+ */
+export type SourceFormat = 'json' | 'csv' | 'emuseum-xml'
+
+/**
+ * One configured source (see `sources` in config.ts)
+ */
+export interface SourceConfig {
+  id: string            // stable identifier recorded on every entry, e.g., "emuseum"
+  label: string         // human-readable name shown in the UI
+  format: SourceFormat  // which adapter reads it
+  path: string          // file under /src/data, e.g., "collection.json" (or an absolute path when streamed)
+  stream?: boolean      // read the file from disk record by record instead of bundling it - for large exports
+}
+
+/**
+ * The shared raw export shape every adapter produces
+ * Still untrusted - it goes through validateExport like the original JSON export
+ */
+export interface RawExport {
+  meta: unknown
+  records: unknown   // expected to be an array of records; validateExport reports it otherwise
+}
+
+/**
+ * A source read one record at a time (see readSource in ingest.ts)
+ * The rest of the export is only known once every record has been read - meta may follow the records
+ */
+export interface RawExportStream {
+  records: AsyncIterable<unknown>  // each element of the export's records array, in order
+  envelope: () => RawExport        // the export without its records; call it after reading them all
+}
+
+/**
+ * Reads one source format into the shared raw export shape
+ * Formats that can be read record by record also implement parseStream (needed for sources with stream: true)
+ */
+export interface SourceAdapter {
+  format: SourceFormat
+  parse: (text: string, source: SourceConfig) => RawExport
+  parseStream?: (chunks: AsyncIterable<string>, source: SourceConfig) => RawExportStream
+}
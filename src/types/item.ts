@@ -5,24 +5,89 @@
  * All fields have predictable types - no more checking multiple formats!
  */
 
+import type { StorageLocation } from './location'
+
 /**
  * Related item reference
  */
 export interface RelatedItem {
-  type: string       // e.g., "set-member", "derived-from", "paired-with"
-  objectId: string   // ID of related object
-  title?: string     // Title of related object (resolved after transform)
+  type: string              // e.g., "set-member", "derived-from", "paired-with"
+  objectId: string | null   // ID of related object (null when the source only gave a slug)
+  slug: string | null       // internal slug the source referenced instead of an ID
+  title?: string            // Title of related object (resolved after transform)
+  inverse?: boolean         // added from the other object's relation, e.g., "source-of" (resolved after transform)
+  broken?: boolean          // target isn't in the collection (resolved after transform)
+}
+
+/**
+ * A single creator (person or organization)
+ */
+export interface Creator {
+  name: string        // canonical name from the alias table, e.g., "Charles Eames"
+  raw: string         // source string it came from, e.g., "Charles and Ray Eames"
+  uncertain: boolean  // true when the source marked the name with "?"
 }
 
 /**
  * Object variant information
+ * "unknown" values are nulled, like unknown creators and dates
  */
 export interface Variant {
-  color?: string | null
-  shell?: string | null
-  finish?: string | null
-  upholstery?: string | null
-  notes?: string | null
+  color: string | null
+  shell: string | null
+  finish: string | null
+  upholstery: string | null
+  notes: string | null
+}
+
+/**
+ * One entry in an object's ownership history
+ */
+export interface ProvenanceEvent {
+  owner: string | null        // person or institution holding the object, e.g., "Eames Office"
+  date: ItemDate | null       // when they held it, e.g., "1950–1978" (latest null when open-ended)
+  method: string | null       // how they acquired it, e.g., "gift", "purchase", "by descent"
+  sourceNote: string | null   // where this is documented, e.g., "Bill of sale, Eames Office archive"
+}
+
+/**
+ * How precisely a date is known
+ */
+export type DatePrecision = 'day' | 'month' | 'year' | 'decade' | 'century'
+
+/**
+ * Structured date with inferred year bounds
+ * Keeps the curator's display string so nothing is lost for presentation
+ */
+export interface ItemDate {
+  display: string                    // original text, e.g., "c. 1938" or "1950s"
+  earliest: number | null            // earliest possible year (null if unparseable)
+  latest: number | null              // latest possible year (null if unparseable)
+  precision: DatePrecision | null    // granularity of the source value
+  approximate: boolean               // true for "c." / "circa" prefixes
+}
+
+/**
+ * Measured axes of an object
+ */
+export type DimensionAxis = 'height' | 'width' | 'depth' | 'length' | 'diameter' | 'wingspan'
+
+/**
+ * Unit system for displaying dimensions
+ */
+export type MeasurementSystem = 'metric' | 'imperial'
+
+/**
+ * Structured dimensions with numeric values in one canonical unit
+ * Values are always centimeters; use formatDimensions() to show inches
+ */
+export interface ItemDimensions {
+  display: string | null                       // original display string (null if missing or a placeholder)
+  values: { [axis in DimensionAxis]?: number }  // per-axis values in centimeters
+  sourceUnit: string | null                    // unit the source gave the values in, e.g., "in"
+  approximate: boolean                         // true for "approx." displays
+  qualifier: string | null                     // what was measured, e.g., "box" in "box: 12 × 8 × 4 in"
+  descriptive: string | null                   // non-numeric category, e.g., "magazine", "letter size", "reel"
 }
 
 /**
@@ -38,28 +103,58 @@ export interface ItemFlags {
   missingDimensions?: boolean
 }
 
+/**
+ * Where a flag came from
+ */
+export interface FlagOrigin {
+  source: 'export' | 'inferred'   // set by a curator in the export, or derived by a flag rule
+  reason: string | null           // why an inferred flag was set, e.g., "No dimensions recorded"
+}
+
+/**
+ * Origin of each flag that is set
+ */
+export type FlagOrigins = { [key in keyof ItemFlags]?: FlagOrigin }
+
+/**
+ * A curator correction applied on top of the normalized value (see corrections.ts)
+ */
+export interface FieldCorrection {
+  author: string
+  date: string                    // when the correction was made, e.g., "2026-03-02"
+  reason: string
+  original: unknown               // value the transform produced
+}
+
+/**
+ * Corrections applied to an item, keyed by Item field
+ */
+export type ItemCorrections = { [key in keyof Item]?: FieldCorrection }
+
 /**
  * A single collection item after normalization
  *
  * All messy fields have been cleaned up:
- * - creator: always string | null
- * - date: always string | null
+ * - creators: always Creator[] (empty if unknown)
+ * - date: always ItemDate | null
  * - materials: always string | null
- * - dimensions: always string | null
+ * - dimensions: always ItemDimensions | null
  */
 export interface Item {
   // Main fields (displayed prominently)
   id: string                    // from object_id
   accessionNumber: string | null // from accession_number
   title: string                  // from title (with fallback for null)
-  creator: string | null         // normalized from messy creator field
-  date: string | null            // normalized from messy date field
+  creators: Creator[]            // split and canonicalized from messy creator field
+  date: ItemDate | null          // structured from messy date field
   objectType: string             // from object_type
   department: string             // from department
   materials: string | null       // normalized from materials field
-  dimensions: string | null      // normalized from dimensions field
-  flags: ItemFlags | null        // special conditions/warnings
+  dimensions: ItemDimensions | null // structured from dimensions field
+  flags: ItemFlags | null        // special conditions/warnings (from the export and inferred)
+  flagOrigins: FlagOrigins | null // where each flag came from (null when there are no flags)
   related: RelatedItem[]         // linked objects
+  corrections: ItemCorrections | null // curator overrides applied to this item (null when there are none)
 
   // Additional fields (shown in modal, ≤10% presence)
   notes: string[] | null         // curator notes
@@ -72,11 +167,10 @@ export interface Item {
   creditLine: string | null      // donor/acquisition credit
   condition: string | null       // condition report
   geo: { country?: string; region?: string } | null // geographic origin
-  inventoryLocation: number | string | null // physical location ID
   transcription: string | null   // text transcription
   series: { title?: string; type?: string } | null // series info
-  location: { site?: string; shelf?: string } | null // storage location
+  location: StorageLocation | null // storage location, merged from location and inventory_location (see locations.ts)
   edition: { number?: unknown; notes?: string } | null // edition info (number type varies in source data)
   status: string | null          // record status
-  provenance: unknown[] | null   // ownership history (structure varies in source data)
+  provenance: ProvenanceEvent[] | null // ownership history, in source order
 }
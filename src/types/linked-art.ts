@@ -0,0 +1,108 @@
+/**
+ * Type definitions for LINKED ART (CIDOC-CRM) JSON-LD
+ *
+ * Only the parts of the Linked Art model the export produces.
+ * See https://linked.art/model/ for the full model.
+ */
+
+/**
+ * A reference to a vocabulary term (usually Getty AAT)
+ */
+export interface LinkedArtType {
+  id?: string
+  type: 'Type' | 'MeasurementUnit' | 'Material' | 'Language'
+  _label: string
+}
+
+/**
+ * A name or identifier of an entity
+ */
+export interface LinkedArtIdentifier {
+  type: 'Name' | 'Identifier'
+  content: string
+  classified_as?: LinkedArtType[]
+}
+
+/**
+ * A textual statement about an entity (description, material statement, ...)
+ */
+export interface LinkedArtStatement {
+  type: 'LinguisticObject'
+  content: string
+  classified_as: LinkedArtType[]
+}
+
+/**
+ * A person or organization
+ */
+export interface LinkedArtActor {
+  id: string
+  type: 'Person' | 'Group'
+  _label: string
+}
+
+/**
+ * A period of time, bounded by its earliest start and latest end
+ */
+export interface LinkedArtTimeSpan {
+  type: 'TimeSpan'
+  identified_by?: LinkedArtIdentifier[]
+  begin_of_the_begin?: string   // ISO 8601 datetime
+  end_of_the_end?: string
+}
+
+/**
+ * A measured extent of an object
+ */
+export interface LinkedArtDimension {
+  type: 'Dimension'
+  value: number
+  unit: LinkedArtType
+  classified_as: LinkedArtType[]
+}
+
+/**
+ * An uncertain attribution ("possibly by ...")
+ */
+export interface LinkedArtAttributeAssignment {
+  type: 'AttributeAssignment'
+  classified_as: LinkedArtType[]
+  assigned_property: 'carried_out_by'
+  assigned: LinkedArtActor[]
+}
+
+/**
+ * The creation of an object
+ */
+export interface LinkedArtProduction {
+  type: 'Production'
+  timespan?: LinkedArtTimeSpan
+  carried_out_by?: LinkedArtActor[]
+  assigned_by?: LinkedArtAttributeAssignment[]
+}
+
+/**
+ * A reference to another object
+ */
+export interface LinkedArtObjectReference {
+  id: string
+  type: 'HumanMadeObject'
+  _label?: string
+}
+
+/**
+ * One collection object as a Linked Art document
+ */
+export interface LinkedArtObject {
+  '@context': string
+  id: string
+  type: 'HumanMadeObject'
+  _label: string
+  classified_as: LinkedArtType[]
+  identified_by: LinkedArtIdentifier[]
+  referred_to_by?: LinkedArtStatement[]
+  produced_by?: LinkedArtProduction
+  made_of?: LinkedArtType[]
+  dimension?: LinkedArtDimension[]
+  part_of?: LinkedArtObjectReference[]
+}
@@ -0,0 +1,81 @@
+/**
+ * Type definitions for STORAGE LOCATIONS
+ *
+ * Exports describe where an object is stored in two ways: a location object
+ * ({ site, shelf }) and an inventory location ID from the registrar's system.
+ * Both are merged into one site → room → shelf location, using the location
+ * authority in /src/data/locations.json to look IDs up.
+ */
+
+/**
+ * Where an object is stored
+ * Any level may be missing, e.g., a shelf is known but not the room it is in
+ */
+export interface StorageLocation {
+  site: string | null   // building or facility, e.g., "Archive"
+  room: string | null   // room or vault within the site, e.g., "Vault B"
+  shelf: string | null  // shelf, drawer, rack or bay, e.g., "F-12"
+  code: string | null   // inventory location ID as exported, e.g., "12" (null when the export had none)
+}
+
+/**
+ * One location as written in the location authority
+ */
+export interface AuthorityLocation {
+  site: string
+  room?: string
+  shelf?: string
+}
+
+/**
+ * Levels of the location hierarchy, outermost first
+ */
+export type LocationLevel = 'site' | 'room' | 'shelf'
+
+/**
+ * One site, room or shelf in the location browser
+ */
+export interface LocationNode {
+  level: LocationLevel
+  name: string | null      // null when the level wasn't recorded ("room not recorded")
+  path: (string | null)[]  // names from the site down to this node, e.g., ["Archive", "Vault B"]
+  itemIds: string[]        // objects stored at exactly this node (not in its children)
+  count: number            // objects at this node and below
+  children: LocationNode[]
+}
+
+/**
+ * Objects grouped by where they are stored
+ */
+export interface LocationTree {
+  sites: LocationNode[]
+  unresolved: { code: string; itemIds: string[] }[]  // inventory IDs the authority doesn't know
+  unlocated: string[]                                 // objects with no location at all
+}
+
+/**
+ * One object to pull for a pick list
+ */
+export interface PickListEntry {
+  id: string
+  accessionNumber: string | null
+  title: string
+  path: string    // object page, e.g., "/objects/EI-0001/"
+  location: StorageLocation | null
+}
+
+/**
+ * Objects to pull from one location, in shelf order
+ */
+export interface PickListGroup {
+  label: string   // "Archive › Vault B › F-12", or "No location recorded"
+  entries: PickListEntry[]
+}
+
+/**
+ * A pick list for a chosen set of objects
+ */
+export interface PickList {
+  groups: PickListGroup[]
+  notFound: string[]  // requested IDs or accession numbers that match no object
+}
@@ -0,0 +1,63 @@
+/**
+ * Type definitions for the PUBLICATION POLICY
+ *
+ * The same collection is built twice: a public edition for the website and an
+ * internal edition for staff. The policy in /src/data/publication.json decides
+ * which records the public edition shows, which fields it leaves out, and how
+ * rights are stated.
+ */
+
+import type { Item, ItemFlags } from './item'
+
+/**
+ * Which site is being built
+ * - 'public': published records only, internal fields redacted, no curator pages
+ * - 'internal': every record and field, plus the curator pages
+ */
+export type SiteEdition = 'public' | 'internal'
+
+/**
+ * Item fields that can be left out of the public edition (the ones that may be null)
+ */
+export type RedactableField = { [K in keyof Item]-?: null extends Item[K] ? K : never }[keyof Item]
+
+/**
+ * A standard rights statement and the exported rights values it covers
+ */
+export interface RightsStatementRule {
+  label: string    // statement shown on the public site, e.g., "In Copyright"
+  match: string[]  // matched anywhere in the exported rights value, ignoring case, e.g., "©"
+}
+
+/**
+ * The publication policy, as written in /src/data/publication.json
+ */
+export interface PublicationPolicy {
+  withheldStatuses: string[]             // records with one of these statuses stay internal, e.g., "draft"
+  withheldFlags: (keyof ItemFlags)[]     // records a curator set one of these flags on stay internal
+  withholdInvalid: boolean               // records that failed validation stay internal
+  redactedFields: RedactableField[]      // fields the public edition leaves out
+  internalFlags: (keyof ItemFlags)[]     // flags the public edition doesn't show
+  rightsStatements: RightsStatementRule[] // checked in order, the first match wins
+  defaultRightsStatement: string         // shown when no rule matches, including when rights are missing
+}
+
+/**
+ * What the public edition does with one item
+ */
+export interface PublicationDecision {
+  publish: boolean
+  reasons: string[]                  // why the record is withheld, e.g., 'status "draft"' (empty when published)
+  redactedFields: RedactableField[]  // fields with a value that the public edition leaves out
+  hiddenFlags: (keyof ItemFlags)[]   // flags set on the item that the public edition doesn't show
+  rightsStatement: string            // rights as shown on the public site
+}
+
+/**
+ * A record left out of the public edition
+ */
+export interface WithheldRecord {
+  id: string
+  title: string
+  reasons: string[]
+}
@@ -0,0 +1,57 @@
+/**
+ * Type definitions for the DATA-QUALITY DASHBOARD
+ *
+ * Collection-wide completeness and problem counts, computed from the
+ * transformed items at build time.
+ */
+
+import type { Item } from './item'
+
+/**
+ * A field whose completeness is tracked
+ */
+export interface QualityField {
+  key: keyof Item
+  label: string
+}
+
+/**
+ * Completeness of the tracked fields within one group of items
+ */
+export interface CompletenessRow {
+  group: string                           // department or object type ("All records" for the total row)
+  total: number                           // items in the group
+  missing: { [field: string]: number }    // items lacking each tracked field, by field key
+}
+
+/**
+ * How many items carry a flag
+ */
+export interface FlagCount {
+  key: string
+  label: string
+  count: number
+  inferred: number   // how many of those were inferred by a flag rule rather than set in the export
+}
+
+/**
+ * Items with one specific data problem
+ */
+export interface QualityIssueList {
+  key: string                                // quality issue key, e.g., "unparseable-date"
+  label: string
+  items: { id: string; title: string }[]
+}
+
+/**
+ * Everything the /quality page shows
+ */
+export interface QualityMetrics {
+  total: number
+  fields: QualityField[]
+  overall: CompletenessRow
+  byDepartment: CompletenessRow[]
+  byObjectType: CompletenessRow[]
+  flags: FlagCount[]
+  issues: QualityIssueList[]
+}
@@ -0,0 +1,24 @@
+/**
+ * Type definitions for the RELATED-OBJECT GRAPH
+ *
+ * Relations in the export are one-way and may point at a slug instead of an
+ * object ID. The graph resolves them, adds the inverse direction and reports
+ * references that lead nowhere.
+ */
+
+/**
+ * Why a relation couldn't be resolved
+ */
+export type DanglingReason =
+  | 'unknown-id'    // object_id doesn't match any object in the collection
+  | 'unknown-slug'  // slug doesn't match any object's externalIds.internal_slug
+
+/**
+ * A relation whose target isn't in the collection
+ */
+export interface DanglingReference {
+  objectId: string   // object that declares the relation
+  type: string       // relation type as declared, e.g., "exhibition"
+  target: string     // the object ID or slug that didn't resolve
+  reason: DanglingReason
+}
@@ -0,0 +1,67 @@
+/**
+ * Type definitions for CLIENT-SIDE SEARCH, FILTERING AND SORTING
+ *
+ * The search index is built at build time from the transformed items and
+ * shipped to the browser as JSON, so the static site needs no server.
+ */
+
+/**
+ * One searchable item - only what the browser needs to filter and sort
+ */
+export interface SearchDocument {
+  id: string
+  text: string               // folded text of title, creators, description, keywords and tags (plus broader terms), transcription
+  department: string
+  objectType: string
+  flags: string[]            // ItemFlags keys that are set
+  quality: string[]          // data-quality issue keys, e.g., "missing-date" (see quality.ts)
+  creators: string[]         // canonical creator names
+  earliest: number | null    // date range (null if unknown)
+  latest: number | null
+  title: string              // sort keys
+  accessionNumber: string | null
+  size: number | null        // largest extent in centimeters
+}
+
+/**
+ * How the grid can be ordered
+ * 'source' keeps the export order
+ */
+export type SortOption = 'source' | 'title' | 'date' | 'date-desc' | 'accession' | 'size'
+
+/**
+ * Current search, filters and sort - mirrored in the URL query string
+ * Values within one facet are OR-ed; different facets are AND-ed
+ */
+export interface FilterState {
+  query: string
+  departments: string[]
+  objectTypes: string[]
+  flags: string[]
+  quality: string[]
+  creators: string[]
+  yearFrom: number | null
+  yearTo: number | null
+  sort: SortOption
+}
+
+/**
+ * A facet value and how many items have it
+ */
+export interface FacetValue {
+  value: string
+  label: string
+  count: number
+}
+
+/**
+ * All facet options, computed at build time
+ */
+export interface Facets {
+  departments: FacetValue[]
+  objectTypes: FacetValue[]
+  flags: FacetValue[]
+  quality: FacetValue[]
+  creators: FacetValue[]
+  years: { min: number; max: number } | null
+}
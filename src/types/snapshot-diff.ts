@@ -0,0 +1,49 @@
+/**
+ * Type definitions for SNAPSHOT DIFFS
+ *
+ * Compares two collection exports after both are normalized, so curators
+ * review what actually changed between monthly exports rather than how the
+ * source system happened to format it.
+ */
+
+import type { ExportMeta } from './entry'
+import type { Item } from './item'
+
+/**
+ * One changed value of a normalized Item
+ */
+export interface FieldChange {
+  path: string      // field path in the Item, e.g., "title" or "date.earliest"
+  before: unknown   // undefined when the field was absent
+  after: unknown
+}
+
+/**
+ * An object present in both snapshots whose normalized values differ
+ */
+export interface ChangedObject {
+  objectId: string
+  title: string            // title in the newer snapshot
+  changes: FieldChange[]
+}
+
+/**
+ * Summary of one snapshot
+ */
+export interface SnapshotInfo {
+  meta: ExportMeta | null  // null when the export's meta failed validation
+  records: number          // records that could be normalized
+  issues: number           // validation issues found in the export
+}
+
+/**
+ * Everything that differs between two snapshots, keyed by object_id
+ */
+export interface SnapshotDiff {
+  before: SnapshotInfo
+  after: SnapshotInfo
+  added: Item[]            // only in the newer snapshot
+  removed: Item[]          // only in the older snapshot
+  changed: ChangedObject[]
+  unchanged: number
+}
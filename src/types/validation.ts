@@ -0,0 +1,36 @@
+/**
+ * Type definitions for RUNTIME VALIDATION of raw collection exports
+ *
+ * The quicktype types only exist at compile time. These describe what the
+ * runtime validator reports when an export doesn't match them.
+ */
+
+/**
+ * What to do with a record that fails validation
+ * - skip: leave it out of the collection entirely
+ * - mark: keep it, but flag it so the UI can show it as invalid
+ */
+export type ValidationStrictness = 'skip' | 'mark'
+
+/**
+ * A single problem found in the export
+ */
+export interface ValidationIssue {
+  objectId: string | null  // object_id of the bad record (null if it has none or the problem is export-wide)
+  index: number | null     // position in the records array (null for export-wide problems)
+  path: string             // field path, e.g., "dimensions.h.value" or "related[0].type"
+  source?: string          // id of the source the record came from (set when loading several sources)
+  reason: string           // human-readable explanation
+}
+
+/**
+ * Summary of a validation run, suitable for rendering on a page
+ */
+export interface ValidationReport {
+  strictness: ValidationStrictness
+  total: number              // records found in the export
+  valid: number              // records with no issues
+  invalid: number            // records with at least one issue
+  skipped: number            // invalid records left out (always 0 in "mark" mode, except unusable records)
+  issues: ValidationIssue[]  // every issue, in record order
+}
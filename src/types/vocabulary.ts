@@ -0,0 +1,31 @@
+/**
+ * Type definitions for the CONTROLLED VOCABULARY
+ *
+ * Keywords, tags and materials are mapped to preferred terms from the local
+ * thesaurus in /src/data/vocabulary.json.
+ */
+
+/**
+ * The thesaurus sections
+ * - subjects: keywords and tags
+ * - materials: individual materials
+ */
+export type VocabularyName = 'subjects' | 'materials'
+
+/**
+ * One preferred term as written in the thesaurus
+ */
+export interface VocabularyTerm {
+  alternates?: string[]  // other labels that mean the same thing, e.g., "bike" for "bicycles"
+  broader?: string       // more general term, e.g., "plywood" for "molded plywood"
+}
+
+/**
+ * A value the thesaurus couldn't map, for curators to add or correct
+ */
+export interface UnmappedTerm {
+  field: string          // Item field, e.g., "keywords" or "materials"
+  term: string           // value as it appears in the source
+  count: number          // records it appears in
+  objectIds: string[]
+}
@@ -0,0 +1,175 @@
+/**
+ * Ingest Adapter Tests
+ *
+ * Reading the CSV spreadsheet and eMuseum XML formats from small inline
+ * exports: quoting and line endings, meta lines, multi-valued cells, XML
+ * entities and CDATA, and the errors for malformed XML.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { csvAdapter, parseCsv } from '../src/lib/adapters/csv'
+import { emuseumAdapter } from '../src/lib/adapters/emuseum'
+import { parseXml } from '../src/lib/adapters/xml'
+import type { SourceConfig } from '../src/types/ingest'
+
+const csvSource: SourceConfig = { id: 'registrar', label: 'Registrar spreadsheet', format: 'csv', path: 'test.csv' }
+const xmlSource: SourceConfig = { id: 'emuseum', label: 'eMuseum', format: 'emuseum-xml', path: 'test.xml' }
+
+// Adapters leave records untyped for validateExport; these exports always give an array
+const recordsOf = (records: unknown) => records as { [field: string]: unknown }[]
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, escaped quotes and line breaks', () => {
+    expect(parseCsv('id,title\nEI-T001,"Chair, ""LCW""\nplywood"\n')).toEqual([
+      ['id', 'title'],
+      ['EI-T001', 'Chair, "LCW"\nplywood'],
+    ])
+  })
+
+  it('accepts CRLF line endings and a missing final line break', () => {
+    expect(parseCsv('id,title\r\nEI-T001,Chair\r\nEI-T002,Stool')).toEqual([
+      ['id', 'title'],
+      ['EI-T001', 'Chair'],
+      ['EI-T002', 'Stool'],
+    ])
+  })
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a,,c\n,,\n')).toEqual([['a', '', 'c'], ['', '', '']])
+  })
+})
+
+describe('csvAdapter', () => {
+  const csv = [
+    '# source: Registrar working spreadsheet',
+    '# exportedAt: 2026-02-02T00:00:00Z',
+    'object_id,title,creator,date,date_earliest,date_latest,materials,flags,related,museumplus_id,inventory_location,unknown_column',
+    'EI-T001,"Elephant (Plywood, Prototype)",Charles Eames; Ray Eames,c. 1945,1945,1946,molded plywood,needs_review; prototype,derived-from:EI-T002; part-of : EI-T003,MP-1,Archive > Vault A > A-01,ignored',
+    ',,,,,,,,,,,',
+    'EI-T002,,,1950s,,,,,,,14,',
+  ].join('\r\n')
+
+  const { meta, records: raw } = csvAdapter.parse(csv, csvSource)
+  const records = recordsOf(raw)
+
+  it('reads the export meta from "# key: value" lines', () => {
+    expect(meta).toEqual({ source: 'Registrar working spreadsheet', exportedAt: '2026-02-02T00:00:00Z' })
+  })
+
+  it('falls back to the source label without meta lines', () => {
+    expect(csvAdapter.parse('object_id\nEI-T001\n', csvSource).meta).toEqual({ source: 'Registrar spreadsheet', exportedAt: undefined })
+  })
+
+  it('maps a row onto the raw record fields, splitting multi-valued cells', () => {
+    expect(records).toEqual([
+      expect.objectContaining({
+        object_id: 'EI-T001',
+        title: 'Elephant (Plywood, Prototype)',
+        creator: ['Charles Eames', 'Ray Eames'],
+        date: { display: 'c. 1945', earliest: 1945, latest: 1946 },
+        materials: ['molded plywood'],
+        flags: { needs_review: true, prototype: true },
+        related: [{ type: 'derived-from', object_id: 'EI-T002' }, { type: 'part-of', object_id: 'EI-T003' }],
+        external_ids: { emuseum: null, museumplus: 'MP-1' },
+        inventory_location: 'Archive > Vault A > A-01',
+      }),
+      expect.anything(),
+    ])
+    expect(records[0]).not.toHaveProperty('unknown_column')
+  })
+
+  it('skips blank rows and turns empty cells into null or leaves them out', () => {
+    expect(records).toHaveLength(2)
+    expect(records[1]).toEqual({
+      object_id: 'EI-T002',
+      accession_number: null,
+      title: null,
+      creator: null,
+      date: '1950s',
+      object_type: undefined,
+      department: undefined,
+      materials: null,
+      dimensions: null,
+      inventory_location: '14',
+    })
+  })
+})
+
+describe('parseXml', () => {
+  it('decodes predefined entities and character references in text and attributes', () => {
+    const root = parseXml('<object title="Herman Miller &amp; Co &#x2014; &quot;CTM&quot;">Gift &lt;Eames&gt; &#8211; &apos;1950&apos; &unknown;</object>')
+    expect(root.attributes.title).toBe('Herman Miller & Co — "CTM"')
+    expect(root.text).toBe('Gift <Eames> – \'1950\' &unknown;')
+  })
+
+  it('keeps CDATA as written, without decoding entities', () => {
+    expect(parseXml('<note><![CDATA[<b>Tom & Jerry</b> &amp;]]></note>').text).toBe('<b>Tom & Jerry</b> &amp;')
+  })
+
+  it('skips the declaration, comments and DOCTYPE and reads self-closing elements', () => {
+    const root = parseXml('<?xml version="1.0"?>\n<!DOCTYPE objects>\n<!-- export --><objects><object id=\'EI-T001\'/><object id="EI-T002"></object></objects>')
+    expect(root.name).toBe('objects')
+    expect(root.children.map(child => child.attributes.id)).toEqual(['EI-T001', 'EI-T002'])
+  })
+
+  it.each([
+    ['a mismatched closing tag', '<objects><object></objects>', 'Malformed XML: expected </object>, found </objects>'],
+    ['an unclosed element', '<objects><object>', 'Malformed XML: <object> is never closed'],
+    ['no root element', '<?xml version="1.0"?><!-- empty -->', 'Malformed XML: no root element'],
+  ])('rejects %s', (_, xml, message) => {
+    expect(() => parseXml(xml)).toThrow(message)
+  })
+})
+
+describe('emuseumAdapter', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<objects source="eMuseum &#8211; Eames Institute" exportedAt="2026-02-05T00:00:00Z">
+  <object id="EI-T001" emuseumId="CTM-1950-001">
+    <invno>2021.5.1</invno>
+    <title>Coffee Table (CTM)</title>
+    <people><person>Charles Eames</person><person>Ray Eames</person><person></person></people>
+    <displayDate>c. 1950</displayDate>
+    <beginDate>1949</beginDate>
+    <endDate>1951</endDate>
+    <classification>Furniture</classification>
+    <department>Furniture</department>
+    <medium>molded plywood, metal</medium>
+    <dimensions>H 15.5 in</dimensions>
+    <creditline>Gift of Herman Miller &amp; the Eames family</creditline>
+    <description><![CDATA[Table top <i>and</i> base]]></description>
+    <keywords><keyword>table</keyword></keywords>
+  </object>
+  <notAnObject />
+  <object id="EI-T002"><displayDate>1950s</displayDate></object>
+</objects>`
+
+  const { meta, records: raw } = emuseumAdapter.parse(xml, xmlSource)
+  const records = recordsOf(raw)
+
+  it('reads the export meta from the root attributes', () => {
+    expect(meta).toEqual({ source: 'eMuseum – Eames Institute', exportedAt: '2026-02-05T00:00:00Z' })
+  })
+
+  it('maps TMS field names onto the raw record fields', () => {
+    expect(records[0]).toEqual({
+      object_id: 'EI-T001',
+      accession_number: '2021.5.1',
+      title: 'Coffee Table (CTM)',
+      creator: ['Charles Eames', 'Ray Eames'],
+      date: { display: 'c. 1950', earliest: 1949, latest: 1951 },
+      object_type: 'Furniture',
+      department: 'Furniture',
+      materials: 'molded plywood, metal',
+      dimensions: { display: 'H 15.5 in' },
+      credit_line: 'Gift of Herman Miller & the Eames family',
+      description: 'Table top <i>and</i> base',
+      keywords: ['table'],
+      external_ids: { emuseum: 'CTM-1950-001' },
+    })
+  })
+
+  it('only reads <object> elements, leaving missing fields null', () => {
+    expect(records).toHaveLength(2)
+    expect(records[1]).toMatchObject({ object_id: 'EI-T002', title: null, creator: null, date: '1950s', dimensions: null })
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * JSON API Tests
+ *
+ * Parsing /api/items.json queries, paging through small transformed
+ * collections, and keeping the published schema in step with Item.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { ITEM_FIELDS, parseFields, parseItemsQuery, queryItems, selectFields, staticItemsQuery } from '../src/lib/api'
+import { transformRecord } from '../src/lib/transform'
+import schema from '../src/data/api-schema.json'
+import { baseRecord } from './fixtures/records'
+import type { ItemsQuery, ItemsResponse } from '../src/types/api'
+
+const items = [
+  { object_id: 'EI-T001', department: 'Furniture', date: 1946 },
+  { object_id: 'EI-T002', department: 'Graphics', object_type: 'Poster', date: 1952, flags: { prototype: true } },
+  { object_id: 'EI-T003', department: 'Furniture', date: 1956, flags: { prototype: true } },
+  { object_id: 'EI-T004', department: 'Furniture', date: 1961 },
+  { object_id: 'EI-T005', department: 'Furniture', date: null },
+].map(record => transformRecord({ ...baseRecord, ...record }))
+
+const parse = (query: string): ItemsQuery => {
+  const parsed = parseItemsQuery(new URLSearchParams(query))
+  if ('error' in parsed) throw new Error(parsed.error)
+  return parsed.query
+}
+
+const page = (query: string): ItemsResponse => {
+  const result = queryItems(items, parse(query), '/api/items.json')
+  if ('error' in result) throw new Error(result.error)
+  return result.page
+}
+
+describe('parseItemsQuery', () => {
+  it('reads the grid filters, fields and paging', () => {
+    expect(parse('department=Furniture&type=Chair&flag=prototype&from=1950&to=1960&fields=title,%20location&limit=5')).toEqual({
+      filters: expect.objectContaining({ departments: ['Furniture'], objectTypes: ['Chair'], flags: ['prototype'], yearFrom: 1950, yearTo: 1960 }),
+      fields: ['title', 'location'],
+      limit: 5,
+      cursor: null,
+    })
+  })
+
+  it('defaults to every field, 20 per page', () => {
+    expect(parse('')).toMatchObject({ fields: null, limit: 20 })
+  })
+
+  it.each([
+    ['from=1950s', 'from must be a year, got "1950s"'],
+    ['flag=broken', 'unknown flag "broken"'],
+    ['sort=newest', 'unknown sort "newest"'],
+    ['fields=title,titel', 'unknown field "titel"'],
+    ['limit=0', 'limit must be a whole number from 1 to 100, got "0"'],
+    ['limit=2.5', 'limit must be a whole number from 1 to 100, got "2.5"'],
+  ])('rejects %s', (query, error) => {
+    expect(parseItemsQuery(new URLSearchParams(query))).toEqual({ error })
+  })
+})
+
+describe('queryItems', () => {
+  it('filters by department, flag and date range', () => {
+    expect(page('department=Furniture&from=1950').data.map(item => item.id)).toEqual(['EI-T003', 'EI-T004'])
+    expect(page('flag=prototype&to=1955').data.map(item => item.id)).toEqual(['EI-T002'])
+  })
+
+  it('pages with the cursor until there are no more items', () => {
+    const first = page('department=Furniture&limit=2&fields=title')
+    expect(first.data).toEqual([{ id: 'EI-T001', title: 'Test Chair' }, { id: 'EI-T003', title: 'Test Chair' }])
+    expect(first.page).toMatchObject({ limit: 2, total: 4 })
+    expect(first.page.next).toBe(`/api/items.json?department=Furniture&fields=title&limit=2&cursor=${first.page.nextCursor}`)
+
+    const second = page(new URL(first.page.next ?? '', 'http://localhost').search)
+    expect(second.data.map(item => item.id)).toEqual(['EI-T004', 'EI-T005'])
+    expect(second.page).toMatchObject({ nextCursor: null, next: null })
+  })
+
+  it('rejects a cursor that is not in the results', () => {
+    const cursor = page('limit=1').page.nextCursor
+    expect(queryItems(items, parse(`department=Graphics&cursor=${cursor}`), '/api/items.json')).toEqual({
+      error: `cursor "${cursor}" does not match these filters`,
+    })
+  })
+
+  it('serves every item on one page when prerendered', () => {
+    const result = queryItems(items, staticItemsQuery(items.length), '/api/items.json')
+    expect(result).toMatchObject({ page: { page: { total: 5, nextCursor: null } } })
+  })
+})
+
+describe('selectFields', () => {
+  it('keeps the selected fields and always the id', () => {
+    expect(selectFields(items[0], ['department', 'date'])).toEqual({ id: 'EI-T001', department: 'Furniture', date: items[0].date })
+  })
+
+  it('selects every field when fields is blank', () => {
+    expect(parseFields(' , ')).toEqual({ fields: null })
+  })
+})
+
+describe('published schema', () => {
+  it('lists exactly the fields of a transformed Item', () => {
+    expect([...ITEM_FIELDS].sort()).toEqual(Object.keys(items[0]).sort())
+  })
+
+  it('describes selected items as Items of which only the id is required', () => {
+    const selected = schema.definitions.SelectedItem
+    expect(Object.keys(selected.properties).sort()).toEqual([...ITEM_FIELDS].sort())
+    expect(selected.required).toEqual(['id'])
+    expect(schema.definitions.ItemsResponse.properties.data.items.$ref).toBe('#/definitions/SelectedItem')
+  })
+})
@@ -0,0 +1,17 @@
+/**
+ * Collection Snapshot
+ *
+ * The whole collection, loaded from every configured source and normalized,
+ * written to __snapshots__/collection.json. Any change to a normalizer shows
+ * up as a diff of that file; after reviewing it, accept the change with
+ * `npm test -- -u`.
+ */
+
+import { expect, it } from 'vitest'
+import { loadCollection } from '../src/lib/collection'
+
+it('matches the reviewed snapshot of the normalized collection', async () => {
+  const { entries } = await loadCollection()
+  const items = entries.map(entry => entry.item)
+  await expect(JSON.stringify(items, null, 2) + '\n').toMatchFileSnapshot('__snapshots__/collection.json')
+})
@@ -0,0 +1,92 @@
+/**
+ * Corrections Tests
+ *
+ * Applies correction files to entries built from the base fixture record and
+ * checks what is overridden, recorded and reported.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { applyCorrections } from '../src/lib/corrections'
+import { createEntries } from '../src/lib/transform'
+import { baseRecord } from './fixtures/records'
+import type { Correction, CorrectionsFile } from '../src/types/corrections'
+
+const attribution = { author: 'Curator', date: '2026-03-02', reason: 'Checked against the object file' }
+
+const entries = () => createEntries([baseRecord, { ...baseRecord, object_id: 'EI-T002', creator: [] }], null, 'test')
+
+const correct = (objectId: string, field: string, correction: Partial<Correction>): CorrectionsFile =>
+  ({ [objectId]: { [field]: { ...attribution, value: null, ...correction } } })
+
+describe('applyCorrections', () => {
+  it('overrides the value and records the original with its attribution', () => {
+    const { entries: corrected, issues } = applyCorrections(entries(), correct('EI-T001', 'materials', { value: 'walnut' }))
+    const item = corrected[0].item
+
+    expect(issues).toEqual([])
+    expect(item.materials).toBe('walnut')
+    expect(item.corrections).toEqual({ materials: { ...attribution, original: 'wood' } })
+    expect(corrected[1].item.corrections).toBeNull()
+  })
+
+  it('does not mutate the input entries', () => {
+    const input = entries()
+    applyCorrections(input, correct('EI-T001', 'materials', { value: 'walnut' }))
+    expect(input[0].item.materials).toBe('wood')
+  })
+
+  it('re-infers flags from the corrected data', () => {
+    const creators = [{ name: 'Ray Eames', raw: 'Ray Eames', uncertain: false }]
+    const { entries: corrected } = applyCorrections(entries(), correct('EI-T002', 'creators', { value: creators }))
+    const item = corrected[1].item
+
+    expect(entries()[1].item.flags?.attributionUncertain).toBe(true)
+    expect(item.creators).toEqual(creators)
+    expect(item.flags).toBeNull()
+    expect(item.flagOrigins).toBeNull()
+  })
+
+  it.each([
+    ['unknown-object', correct('EI-MISSING', 'materials', { value: 'walnut' })],
+    ['unknown-field', correct('EI-T001', 'materialz', { value: 'walnut' })],
+    ['unknown-field', correct('EI-T001', 'id', { value: 'EI-T999' })],
+    ['missing-attribution', correct('EI-T001', 'materials', { value: 'walnut', reason: '' })],
+    ['type-mismatch', correct('EI-T001', 'creators', { value: 'Ray Eames' })],
+    ['type-mismatch', correct('EI-T001', 'creators', { value: [{ name: 'Ray Eames' }] })],
+    ['type-mismatch', correct('EI-T001', 'dimensions', { value: { display: '10 in' } })],
+    ['type-mismatch', correct('EI-T001', 'date', { value: { display: '1950', earliest: 1950, latest: 1950, precision: 'era', approximate: false } })],
+    ['unchanged', correct('EI-T001', 'materials', { value: 'wood' })],
+  ])('reports %s instead of applying it', (reason, file) => {
+    const { entries: corrected, issues } = applyCorrections(entries(), file)
+    const [[objectId, fields]] = Object.entries(file)
+
+    expect(issues).toEqual([{ objectId, field: Object.keys(fields)[0], reason }])
+    expect(corrected.map(entry => entry.item)).toEqual(entries().map(entry => entry.item))
+  })
+
+  it('checks the value against the field type when the field is null', () => {
+    const [entry] = createEntries([{ ...baseRecord, dimensions: null }], null, 'test')
+    const dimensions = { display: '10 in', values: { height: 25.4 }, sourceUnit: 'in', approximate: false, qualifier: null, descriptive: null }
+
+    expect(applyCorrections([entry], correct('EI-T001', 'dimensions', { value: '10 in' }))).toEqual({
+      entries: [entry],
+      issues: [{ objectId: 'EI-T001', field: 'dimensions', reason: 'type-mismatch' }],
+    })
+    const { entries: corrected, issues } = applyCorrections([entry], correct('EI-T001', 'dimensions', { value: dimensions }))
+    expect(issues).toEqual([])
+    expect(corrected[0].item.dimensions).toEqual(dimensions)
+  })
+
+  it('lets a correction clear a nullable field', () => {
+    const { entries: corrected, issues } = applyCorrections(entries(), correct('EI-T001', 'materials', { value: null }))
+    expect(issues).toEqual([])
+    expect(corrected[0].item.materials).toBeNull()
+  })
+
+  it('compares objects regardless of key order', () => {
+    const [item] = entries().map(entry => entry.item)
+    const reordered = Object.fromEntries(Object.entries(item.dimensions ?? {}).reverse())
+    const { issues } = applyCorrections(entries(), correct('EI-T001', 'dimensions', { value: reordered }))
+    expect(issues).toEqual([{ objectId: 'EI-T001', field: 'dimensions', reason: 'unchanged' }])
+  })
+})
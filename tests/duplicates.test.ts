@@ -0,0 +1,52 @@
+/**
+ * Duplicate Detection Tests
+ *
+ * Which pairs get compared once the collection is too large to score every
+ * pair, and how matching pairs are clustered, built from the base fixture record.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { MAX_BLOCK_SIZE, detectDuplicates } from '../src/lib/duplicates'
+import { transformRecord } from '../src/lib/transform'
+import { baseRecord } from './fixtures/records'
+import type { Record as SampleRecord } from '../src/scripts/quicktype-generated'
+
+const item = (raw: Partial<SampleRecord>) => transformRecord({ ...baseRecord, ...raw })
+
+// Enough "Chair <n>" records that "chair" is too common a title word to block on
+const chairs = Array.from({ length: MAX_BLOCK_SIZE + 20 }, (_, n) => item({
+  object_id: `EI-C${n}`,
+  title: `Chair ${n}`,
+  accession_number: `${3000 + n}.1.1`,
+  creator: [`Maker ${n}`],
+  date: 1800 + n,
+}))
+
+// Same title, creator and date, but nothing else in common - "chair" is too common a word to pair them on
+const original = item({ object_id: 'EI-T001', title: 'Chair', accession_number: '2020.1.1' })
+const copy = (flags: SampleRecord['flags'] = undefined) => item({ object_id: 'EI-T002', title: 'Chair', accession_number: '2021.7.3', flags })
+
+describe('detectDuplicates', () => {
+  it('finds a duplicate sharing only a small block', () => {
+    expect(detectDuplicates([original, copy()]).clusters.map(cluster => cluster.ids)).toEqual([['EI-T001', 'EI-T002']])
+  })
+
+  it('joins overlapping pairs into one cluster', () => {
+    const desks = ['EI-D1', 'EI-D2', 'EI-D3'].map((id, n) => item({ object_id: id, title: 'Desk', accession_number: `${2020 + n}.1.1` }))
+    const { clusters } = detectDuplicates([...desks, original])
+    expect(clusters.map(cluster => cluster.ids)).toEqual([['EI-D1', 'EI-D2', 'EI-D3']])
+    expect(clusters[0].pairs).toHaveLength(3)
+  })
+
+  it('checks a flagged item on a key too common to block on', () => {
+    const report = detectDuplicates([...chairs, original, copy({ possible_duplicate: true })])
+    expect(report.clusters.map(cluster => cluster.ids)).toEqual([['EI-T001', 'EI-T002']])
+    expect(report.clusters[0].flagged).toEqual(['EI-T002'])
+    expect(report.unmatched).toEqual([])
+  })
+
+  it('finds unflagged pairs whose title words are too common to block on', () => {
+    const { clusters } = detectDuplicates([...chairs, original, copy()])
+    expect(clusters.map(cluster => cluster.ids)).toEqual([['EI-T001', 'EI-T002']])
+  })
+})
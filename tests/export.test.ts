@@ -0,0 +1,73 @@
+/**
+ * Collection Export Tests
+ *
+ * CSV quoting and flattened columns, JSON Lines and the Linked Art array,
+ * for items built from the base fixture record.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { toCsv, toJsonLines, toLinkedArtJson } from '../src/lib/export'
+import { toLinkedArt } from '../src/lib/linked-art'
+import { transformRecord } from '../src/lib/transform'
+import { baseRecord } from './fixtures/records'
+import type { Record as SampleRecord } from '../src/scripts/quicktype-generated'
+
+const item = (raw: Partial<SampleRecord> = {}) => transformRecord({ ...baseRecord, ...raw })
+
+// Cells of each data row, keyed by header (only for rows without quoted line breaks)
+const rowsOf = (csv: string) => {
+  const [header, ...rows] = csv.trimEnd().split('\r\n')
+  return rows.map(row => Object.fromEntries(header.split(',').map((name, i) => [name, row.split(',')[i]])))
+}
+
+describe('toCsv', () => {
+  it('writes a header row and one CRLF-terminated row per item', () => {
+    const csv = toCsv([item(), item({ object_id: 'EI-T002' })])
+    expect(csv.endsWith('\r\n')).toBe(true)
+    expect(csv.split('\r\n')).toHaveLength(4)
+    expect(csv.startsWith('object_id,accession_number,title,creators,creator_display,date_display,')).toBe(true)
+  })
+
+  it('flattens dates and dimensions into one column per part', () => {
+    const [row] = rowsOf(toCsv([item({ date: 'c. 1950s' })]))
+    expect(row).toMatchObject({
+      object_id: 'EI-T001',
+      date_display: 'c. 1950s',
+      date_earliest: '1950',
+      date_latest: '1959',
+      date_precision: 'decade',
+      date_approximate: 'true',
+      height_cm: '25.4',
+      width_cm: '',
+    })
+  })
+
+  it('joins lists with semicolons and leaves missing values empty', () => {
+    const [row] = rowsOf(toCsv([item({ creator: ['Charles Eames', 'Ray Eames'], tags: ['toys', 'boats'] })]))
+    expect(row).toMatchObject({ creators: 'Charles Eames; Ray Eames', tags: 'toys; boats', description: '', keywords: '' })
+  })
+
+  it('quotes cells with commas, quotes and line breaks, doubling the quotes', () => {
+    const csv = toCsv([item({ title: 'Chair, "LCW"', description: 'Two\nlines', materials: ['wood', 'metal'] })])
+    expect(csv).toContain('"Chair, ""LCW"""')
+    expect(csv).toContain('"Two\nlines"')
+    expect(csv).toContain(',"wood, metal",')
+  })
+})
+
+describe('toJsonLines', () => {
+  it('writes one complete item per line', () => {
+    const items = [item(), item({ object_id: 'EI-T002', description: 'Line one\nline two' })]
+    const lines = toJsonLines(items).split('\n')
+    expect(lines).toHaveLength(3)
+    expect(lines[2]).toBe('')
+    expect(lines.slice(0, 2).map(line => JSON.parse(line))).toEqual(JSON.parse(JSON.stringify(items)))
+  })
+})
+
+describe('toLinkedArtJson', () => {
+  it('writes an array of Linked Art documents', () => {
+    const items = [item(), item({ object_id: 'EI-T002' })]
+    expect(JSON.parse(toLinkedArtJson(items))).toEqual(JSON.parse(JSON.stringify(items.map(toLinkedArt))))
+  })
+})
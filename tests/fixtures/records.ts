@@ -0,0 +1,541 @@
+/**
+ * Transform Fixtures
+ *
+ * One fixture per raw field shape seen in collection.json, with the Item
+ * fields that shape produces. Each fixture only overrides the fields it is
+ * about; everything else comes from baseRecord, which is complete enough that
+ * no flag rule fires on its own.
+ */
+
+import type { Record as SampleRecord } from '../../src/scripts/quicktype-generated'
+import type { Item } from '../../src/types/item'
+
+/**
+ * One raw shape and what the transform should make of it
+ */
+export interface RecordFixture {
+  shape: string                // short description of the raw shape
+  raw: Partial<SampleRecord>   // fields overriding baseRecord
+  expected: Partial<Item>      // exact values of the Item fields this shape affects
+}
+
+export const baseRecord: SampleRecord = {
+  object_id: 'EI-T001',
+  accession_number: '2020.1.1',
+  title: 'Test Chair',
+  creator: ['Charles Eames'],
+  date: 1950,
+  object_type: 'Furniture',
+  department: 'Furniture',
+  materials: ['wood'],
+  dimensions: { display: 'H 10 in', h: { value: 10, unit: 'in' } },
+}
+
+/**
+ * Builds the full raw record for a fixture
+ */
+export function fixtureRecord(fixture: RecordFixture): SampleRecord {
+  return { ...baseRecord, ...fixture.raw }
+}
+
+/**
+ * Fixtures grouped by the Item field they exercise
+ */
+export const FIXTURES: { [field: string]: RecordFixture[] } = {
+  creators: [
+    {
+      shape: 'creator: array of names',
+      raw: { creator: ['Charles Eames', 'Ray Eames'] },
+      expected: { creators: [{ name: 'Charles Eames', raw: 'Charles Eames', uncertain: false }, { name: 'Ray Eames', raw: 'Ray Eames', uncertain: false }], flags: null },
+    },
+    {
+      shape: 'creator: "X and Y" string',
+      raw: { creator: 'Charles and Ray Eames' },
+      expected: { creators: [{ name: 'Charles Eames', raw: 'Charles and Ray Eames', uncertain: false }, { name: 'Ray Eames', raw: 'Charles and Ray Eames', uncertain: false }], flags: null },
+    },
+    {
+      shape: 'creator: comma list ending in "and"',
+      raw: { creator: 'Charles Eames, Ray Eames and Eero Saarinen' },
+      expected: {
+        creators: [
+          { name: 'Charles Eames', raw: 'Charles Eames, Ray Eames and Eero Saarinen', uncertain: false },
+          { name: 'Ray Eames', raw: 'Charles Eames, Ray Eames and Eero Saarinen', uncertain: false },
+          { name: 'Eero Saarinen', raw: 'Charles Eames, Ray Eames and Eero Saarinen', uncertain: false },
+        ],
+        flags: null,
+      },
+    },
+    {
+      shape: 'creator: organization list with "&"',
+      raw: { creator: 'Knoll, Smith & Co.' },
+      expected: { creators: [{ name: 'Knoll, Smith & Co.', raw: 'Knoll, Smith & Co.', uncertain: false }], flags: null },
+    },
+    {
+      shape: 'creator: organization with "&"',
+      raw: { creator: 'F. Ad. Richter & Co.' },
+      expected: { creators: [{ name: 'F. Ad. Richter & Co.', raw: 'F. Ad. Richter & Co.', uncertain: false }], flags: null },
+    },
+    {
+      shape: 'creator: empty array',
+      raw: { creator: [] },
+      expected: { creators: [], flags: { attributionUncertain: true } },
+    },
+    {
+      shape: 'creator: empty string',
+      raw: { creator: '' },
+      expected: { creators: [], flags: { attributionUncertain: true } },
+    },
+    {
+      shape: 'creator: "Unknown" string',
+      raw: { creator: 'Unknown' },
+      expected: { creators: [], flags: { attributionUncertain: true } },
+    },
+    {
+      shape: 'creator: ["Unknown"]',
+      raw: { creator: ['Unknown'] },
+      expected: { creators: [], flags: { attributionUncertain: true } },
+    },
+    {
+      shape: 'creator: null',
+      raw: { creator: null },
+      expected: { creators: [], flags: { attributionUncertain: true } },
+    },
+    {
+      shape: 'creator: uncertain "?"',
+      raw: { creator: ['Herman Miller?'] },
+      expected: { creators: [{ name: 'Herman Miller', raw: 'Herman Miller?', uncertain: true }], flags: { attributionUncertain: true } },
+    },
+  ],
+  date: [
+    {
+      shape: 'date: structured object',
+      raw: { date: { display: '1945–1946', earliest: 1945, latest: 1946 } },
+      expected: { date: { display: '1945–1946', earliest: 1945, latest: 1946, precision: 'year', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: object with unknown display',
+      raw: { date: { display: 'unknown', earliest: null, latest: null } },
+      expected: { date: null, flags: { needsResearch: true } },
+    },
+    {
+      shape: 'date: number',
+      raw: { date: 1952 },
+      expected: { date: { display: '1952', earliest: 1952, latest: 1952, precision: 'year', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: year string',
+      raw: { date: '1954' },
+      expected: { date: { display: '1954', earliest: 1954, latest: 1954, precision: 'year', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: ISO day string',
+      raw: { date: '1950-01-01' },
+      expected: { date: { display: '1950-01-01', earliest: 1950, latest: 1950, precision: 'day', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: ISO month string',
+      raw: { date: '2025-03' },
+      expected: { date: { display: '2025-03', earliest: 2025, latest: 2025, precision: 'month', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: decade',
+      raw: { date: '1950s' },
+      expected: { date: { display: '1950s', earliest: 1950, latest: 1959, precision: 'decade', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: circa year',
+      raw: { date: 'c. 1938' },
+      expected: { date: { display: 'c. 1938', earliest: 1938, latest: 1938, precision: 'year', approximate: true }, flags: null },
+    },
+    {
+      shape: 'date: circa decade',
+      raw: { date: 'c. 1940s' },
+      expected: { date: { display: 'c. 1940s', earliest: 1940, latest: 1949, precision: 'decade', approximate: true }, flags: null },
+    },
+    {
+      shape: 'date: year range',
+      raw: { date: '1935–1936' },
+      expected: { date: { display: '1935–1936', earliest: 1935, latest: 1936, precision: 'year', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: year range with a two-digit end',
+      raw: { date: '1935-36' },
+      expected: { date: { display: '1935-36', earliest: 1935, latest: 1936, precision: 'year', approximate: false }, flags: null },
+    },
+    {
+      shape: 'date: inverted range',
+      raw: { date: '1960 - 1950' },
+      expected: { date: { display: '1960 - 1950', earliest: null, latest: null, precision: null, approximate: false }, flags: { needsReview: true } },
+    },
+    {
+      shape: 'date: ISO-like string with no such month',
+      raw: { date: '1950-13' },
+      expected: { date: { display: '1950-13', earliest: null, latest: null, precision: null, approximate: false }, flags: { needsReview: true } },
+    },
+    {
+      shape: 'date: circa without a dot',
+      raw: { date: 'ca 1950' },
+      expected: { date: { display: 'ca 1950', earliest: 1950, latest: 1950, precision: 'year', approximate: true }, flags: null },
+    },
+    {
+      shape: 'date: "unknown"',
+      raw: { date: 'unknown' },
+      expected: { date: null, flags: { needsResearch: true } },
+    },
+    {
+      shape: 'date: null',
+      raw: { date: null },
+      expected: { date: null, flags: { needsResearch: true } },
+    },
+  ],
+  materials: [
+    {
+      shape: 'materials: array',
+      raw: { materials: ['fiberglass', 'metal'] },
+      expected: { materials: 'fiberglass, metal', flags: null },
+    },
+    {
+      shape: 'materials: comma string',
+      raw: { materials: 'wire mesh, metal frame' },
+      expected: { materials: 'wire mesh, metal frame', flags: null },
+    },
+    {
+      shape: 'materials: semicolon string',
+      raw: { materials: 'pencil; paper' },
+      expected: { materials: 'pencil, paper', flags: null },
+    },
+    {
+      shape: 'materials: alternate labels',
+      raw: { materials: ['Moulded Plywood', 'fibreglass', 'cardboard'] },
+      expected: { materials: 'molded plywood, fiberglass, paperboard', flags: null },
+    },
+    {
+      shape: 'materials: synonyms of one term',
+      raw: { materials: 'photograph, photo print' },
+      expected: { materials: 'photographic print', flags: null },
+    },
+    {
+      shape: 'materials: empty array',
+      raw: { materials: [] },
+      expected: { materials: null, flags: { materialsIncomplete: true } },
+    },
+    {
+      shape: 'materials: null',
+      raw: { materials: null },
+      expected: { materials: null, flags: { materialsIncomplete: true } },
+    },
+  ],
+  dimensions: [
+    {
+      shape: 'dimensions: value/unit objects',
+      raw: { dimensions: { display: 'H 26 in × W 22 in × D 24 in', h: { value: 26, unit: 'in' }, w: { value: 22, unit: 'in' }, d: { value: 24, unit: 'in' } } },
+      expected: { dimensions: { display: 'H 26 in × W 22 in × D 24 in', values: { height: 66.04, width: 55.88, depth: 60.96 }, sourceUnit: 'in', approximate: false, qualifier: null, descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: diameter string',
+      raw: { dimensions: { display: '36 in diameter', diameter: '36 in' } },
+      expected: { dimensions: { display: '36 in diameter', values: { diameter: 91.44 }, sourceUnit: 'in', approximate: false, qualifier: null, descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: length',
+      raw: { dimensions: { display: 'L 9 in', l: { value: 9, unit: 'in' } } },
+      expected: { dimensions: { display: 'L 9 in', values: { length: 22.86 }, sourceUnit: 'in', approximate: false, qualifier: null, descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: display only, with qualifier',
+      raw: { dimensions: { display: 'box: 12 × 8 × 4 in' } },
+      expected: { dimensions: { display: 'box: 12 × 8 × 4 in', values: { height: 30.48, width: 20.32, depth: 10.16 }, sourceUnit: 'in', approximate: false, qualifier: 'box', descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: approx. bare number',
+      raw: { dimensions: { display: 'approx. 5 in', h: 5 } },
+      expected: { dimensions: { display: 'approx. 5 in', values: { height: 12.7 }, sourceUnit: 'in', approximate: true, qualifier: null, descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: "?" placeholders',
+      raw: { dimensions: { display: 'magazine', h: '?', w: '?' } },
+      expected: { dimensions: { display: 'magazine', values: {}, sourceUnit: null, approximate: false, qualifier: null, descriptive: 'magazine' }, flags: null },
+    },
+    {
+      shape: 'dimensions: empty object',
+      raw: { dimensions: {} },
+      expected: { dimensions: null, flags: { missingDimensions: true } },
+    },
+    {
+      shape: 'dimensions: strings without display',
+      raw: { dimensions: { h: '29 in', w: null, d: '22 in' } },
+      expected: { dimensions: { display: null, values: { height: 73.66, depth: 55.88 }, sourceUnit: 'in', approximate: false, qualifier: null, descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: diameter with shared unit',
+      raw: { dimensions: { display: 'small', diameter: 2.5, unit: 'in' } },
+      expected: { dimensions: { display: 'small', values: { diameter: 6.35 }, sourceUnit: 'in', approximate: false, qualifier: null, descriptive: 'small' }, flags: null },
+    },
+    {
+      shape: 'dimensions: wingspan',
+      raw: { dimensions: { display: 'approx. 24 in wingspan', wingspan: '24 in' } },
+      expected: { dimensions: { display: 'approx. 24 in wingspan', values: { wingspan: 60.96 }, sourceUnit: 'in', approximate: true, qualifier: null, descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: numbers with shared unit',
+      raw: { dimensions: { h: 14, w: 11, unit: 'in' } },
+      expected: { dimensions: { display: null, values: { height: 35.56, width: 27.94 }, sourceUnit: 'in', approximate: false, qualifier: null, descriptive: null }, flags: null },
+    },
+    {
+      shape: 'dimensions: null',
+      raw: { dimensions: null },
+      expected: { dimensions: null, flags: { missingDimensions: true } },
+    },
+  ],
+  rights: [
+    {
+      shape: 'rights: string',
+      raw: { rights: 'unknown' },
+      expected: { rights: 'unknown' },
+    },
+    {
+      shape: 'rights: object',
+      raw: { rights: { status: 'unknown', notes: '' } },
+      expected: { rights: 'unknown' },
+    },
+  ],
+  title: [
+    {
+      shape: 'title: null',
+      raw: { title: null },
+      expected: { title: 'Unknown Title' },
+    },
+  ],
+  accession: [
+    {
+      shape: 'accession_number: null',
+      raw: { accession_number: null },
+      expected: { accessionNumber: null },
+    },
+  ],
+  flags: [
+    {
+      shape: 'flags: snake_case',
+      raw: { flags: { needs_research: true, possible_duplicate: true } },
+      expected: { flags: { possibleDuplicate: true, needsResearch: true }, flagOrigins: { possibleDuplicate: { source: 'export', reason: null }, needsResearch: { source: 'export', reason: null } } },
+    },
+  ],
+  related: [
+    {
+      shape: 'related: object_id',
+      raw: { related: [{ type: 'set-member', object_id: 'EI-0044' }] },
+      expected: { related: [{ type: 'set-member', objectId: 'EI-0044', slug: null }] },
+    },
+    {
+      shape: 'related: slug only',
+      raw: { related: [{ type: 'exhibition', slug: 'past-as-prologue' }] },
+      expected: { related: [{ type: 'exhibition', objectId: null, slug: 'past-as-prologue' }] },
+    },
+    {
+      shape: 'related: empty',
+      raw: { related: [] },
+      expected: { related: [] },
+    },
+  ],
+  transcription: [
+    {
+      shape: 'transcription: dash placeholder',
+      raw: { transcription: '—' },
+      expected: { transcription: '—' },
+    },
+    {
+      shape: 'transcription: empty',
+      raw: { transcription: '' },
+      expected: { transcription: null },
+    },
+  ],
+  externalIds: [
+    {
+      shape: 'external_ids: with nulls',
+      raw: { external_ids: { emuseum: 'CTM-1950-001', museumplus: null } },
+      expected: { externalIds: { emuseum: 'CTM-1950-001' } },
+    },
+    {
+      shape: 'external_ids: empty',
+      raw: { external_ids: {} },
+      expected: { externalIds: null },
+    },
+  ],
+  variants: [
+    {
+      shape: 'variants: "unknown" values',
+      raw: { variants: [{ finish: 'unknown', upholstery: 'black', notes: null }, { finish: 'unknown', upholstery: null }] },
+      expected: { variants: [{ color: null, shell: null, finish: null, upholstery: 'black', notes: null }] },
+    },
+    {
+      shape: 'variants: all "unknown"',
+      raw: { variants: [{ color: 'unknown', shell: 'unknown' }] },
+      expected: { variants: null },
+    },
+  ],
+  provenance: [
+    {
+      shape: 'provenance: owner/date/method/source object',
+      raw: { provenance: [{ owner: 'Eames Office', date: '1946–1988', method: 'commissioned', source: 'Eames Office inventory, 1978' }] },
+      expected: { provenance: [{ owner: 'Eames Office', date: { display: '1946–1988', earliest: 1946, latest: 1988, precision: 'year', approximate: false }, method: 'commissioned', sourceNote: 'Eames Office inventory, 1978' }] },
+    },
+    {
+      shape: 'provenance: structured date object',
+      raw: { provenance: [{ owner: 'Lucia Eames', date: { display: '1988–2014', earliest: 1988, latest: 2014 }, method: 'by descent' }] },
+      expected: { provenance: [{ owner: 'Lucia Eames', date: { display: '1988–2014', earliest: 1988, latest: 2014, precision: 'year', approximate: false }, method: 'by descent', sourceNote: null }] },
+    },
+    {
+      shape: 'provenance: name with from/to, "unknown" acquisition',
+      raw: { provenance: [{ name: 'Herman Miller Furniture Company', from: 1950, to: 'c. 1962', acquisition: 'unknown' }] },
+      expected: { provenance: [{ owner: 'Herman Miller Furniture Company', date: { display: '1950–c. 1962', earliest: 1950, latest: 1962, precision: 'year', approximate: true }, method: null, sourceNote: null }] },
+    },
+    {
+      shape: 'provenance: open-ended from',
+      raw: { provenance: [{ name: 'Private collection', from: 'c. 1962' }] },
+      expected: { provenance: [{ owner: 'Private collection', date: { display: 'c. 1962–', earliest: 1962, latest: null, precision: 'year', approximate: true }, method: null, sourceNote: null }] },
+    },
+    {
+      shape: 'provenance: comma-separated text',
+      raw: { provenance: ['Charles and Ray Eames, c. 1950s, purchased'] },
+      expected: { provenance: [{ owner: 'Charles and Ray Eames', date: { display: 'c. 1950s', earliest: 1950, latest: 1959, precision: 'decade', approximate: true }, method: 'purchased', sourceNote: null }] },
+    },
+    {
+      shape: 'provenance: semicolon-separated text with source note',
+      raw: { provenance: ['Eames Office; 1978–2009; transfer; Eames Office inventory'] },
+      expected: { provenance: [{ owner: 'Eames Office', date: { display: '1978–2009', earliest: 1978, latest: 2009, precision: 'year', approximate: false }, method: 'transfer', sourceNote: 'Eames Office inventory' }] },
+    },
+    {
+      shape: 'provenance: history of several events, in export order',
+      raw: { provenance: [
+        { owner: 'Eames Office', date: '1946–1988', method: 'commissioned' },
+        { owner: 'Lucia Eames', date: { display: '1988–2014', earliest: 1988, latest: 2014 }, method: 'by descent' },
+        { owner: 'Eames Institute', date: 2015, method: 'gift', source: 'Deed of gift, 2015.12' },
+      ] },
+      expected: { provenance: [
+        { owner: 'Eames Office', date: { display: '1946–1988', earliest: 1946, latest: 1988, precision: 'year', approximate: false }, method: 'commissioned', sourceNote: null },
+        { owner: 'Lucia Eames', date: { display: '1988–2014', earliest: 1988, latest: 2014, precision: 'year', approximate: false }, method: 'by descent', sourceNote: null },
+        { owner: 'Eames Institute', date: { display: '2015', earliest: 2015, latest: 2015, precision: 'year', approximate: false }, method: 'gift', sourceNote: 'Deed of gift, 2015.12' },
+      ] },
+    },
+    {
+      shape: 'provenance: text and objects mixed, unusable entries dropped in place',
+      raw: { provenance: ['Charles and Ray Eames, c. 1950s, purchased', 'unknown', { name: 'Private collection, Zeeland', from: 'c. 1962', notes: 'Dealer\'s invoice' }] },
+      expected: { provenance: [
+        { owner: 'Charles and Ray Eames', date: { display: 'c. 1950s', earliest: 1950, latest: 1959, precision: 'decade', approximate: true }, method: 'purchased', sourceNote: null },
+        { owner: 'Private collection, Zeeland', date: { display: 'c. 1962–', earliest: 1962, latest: null, precision: 'year', approximate: true }, method: null, sourceNote: 'Dealer\'s invoice' },
+      ] },
+    },
+    {
+      shape: 'provenance: "unknown" and empty entries',
+      raw: { provenance: ['unknown', {}] },
+      expected: { provenance: null },
+    },
+    {
+      shape: 'provenance: empty array',
+      raw: { provenance: [] },
+      expected: { provenance: null },
+    },
+  ],
+  edition: [
+    {
+      shape: 'edition: null number',
+      raw: { edition: { number: null, notes: 'unknown edition' } },
+      expected: { edition: { notes: 'unknown edition' } },
+    },
+  ],
+  geo: [
+    {
+      shape: 'geo: null region',
+      raw: { geo: { country: 'Japan', region: null } },
+      expected: { geo: { country: 'Japan' } },
+    },
+  ],
+  keywords: [
+    {
+      shape: 'keywords: alternate labels and spellings',
+      raw: { keywords: ['bike', 'Mid-Century', 'exhibition'] },
+      expected: { keywords: ['bicycles', 'mid-century modern', 'exhibitions'] },
+    },
+    {
+      shape: 'keywords: capitalized, plural and hyphenated labels',
+      raw: { keywords: ['Boat', 'toys', 'mid-century'] },
+      expected: { keywords: ['boats', 'toys', 'mid-century modern'] },
+    },
+    {
+      shape: 'keywords: unmapped term kept',
+      raw: { keywords: ['mathematica', 'toy'] },
+      expected: { keywords: ['mathematica', 'toys'] },
+    },
+    {
+      shape: 'keywords: duplicates after mapping',
+      raw: { keywords: ['toy', 'toys', 'Toy'] },
+      expected: { keywords: ['toys'] },
+    },
+    {
+      shape: 'keywords: empty strings',
+      raw: { keywords: ['', '  '] },
+      expected: { keywords: null },
+    },
+  ],
+  tags: [
+    {
+      shape: 'tags: array',
+      raw: { tags: ['plywood', 'seating', 'midcentury'] },
+      expected: { tags: ['plywood', 'seating', 'mid-century modern'] },
+    },
+    {
+      shape: 'tags: null',
+      raw: { tags: null },
+      expected: { tags: null },
+    },
+  ],
+  location: [
+    {
+      shape: 'inventory_location: ID in the location authority',
+      raw: { inventory_location: 12 },
+      expected: { location: { site: 'Archive', room: 'Vault B', shelf: 'F-12', code: '12' } },
+    },
+    {
+      shape: 'inventory_location: ID of an offsite rack',
+      raw: { inventory_location: 20 },
+      expected: { location: { site: 'Offsite Storage', room: 'Bay 1', shelf: 'Rack 4', code: '20' } },
+    },
+    {
+      shape: 'inventory_location: ID of a room with no shelves',
+      raw: { inventory_location: 30 },
+      expected: { location: { site: 'Gallery', room: 'Main Hall', shelf: null, code: '30' } },
+    },
+    {
+      shape: 'inventory_location: ID not in the location authority',
+      raw: { inventory_location: 99 },
+      expected: { location: { site: null, room: null, shelf: null, code: '99' } },
+    },
+    {
+      shape: 'location: site and shelf, room from the authority',
+      raw: { location: { site: 'Archive', shelf: 'F-12' } },
+      expected: { location: { site: 'Archive', room: 'Vault B', shelf: 'F-12', code: null } },
+    },
+    {
+      shape: 'location and inventory_location agree',
+      raw: { location: { site: 'Archive', shelf: 'F-12' }, inventory_location: 12 },
+      expected: { location: { site: 'Archive', room: 'Vault B', shelf: 'F-12', code: '12' } },
+    },
+    {
+      shape: 'location and inventory_location disagree',
+      raw: { location: { site: 'Archive', shelf: 'F-12' }, inventory_location: 20 },
+      expected: { location: { site: 'Archive', room: 'Vault B', shelf: 'F-12', code: '20' } },
+    },
+    {
+      shape: 'location: empty strings',
+      raw: { location: { site: '', shelf: ' ' } },
+      expected: { location: null },
+    },
+  ],
+  notes: [
+    {
+      shape: 'notes: array',
+      raw: { notes: ['creator is string'] },
+      expected: { notes: ['creator is string'] },
+    },
+  ],
+}
@@ -0,0 +1,104 @@
+/**
+ * i18n Tests
+ *
+ * Every catalog must carry the same keys and placeholders as en.json, so a
+ * new language can be added without touching components. Also checks the
+ * locale-aware date and dimension formatting the catalogs feed.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { LOCALES, localePath, unlocalizedPath, useTranslations, type MessageKey } from '../src/lib/i18n'
+import { formatItemDate } from '../src/lib/display'
+import { formatDimensions } from '../src/lib/dimensions'
+import { parseDate } from '../src/lib/dates'
+import { FLAG_RULES, reasonMessage } from '../src/lib/flag-rules'
+import type { ItemDimensions } from '../src/types/item'
+import en from '../src/data/i18n/en.json'
+
+const catalogs = import.meta.glob<{ [key: string]: string }>('../src/data/i18n/*.json', { eager: true, import: 'default' })
+
+const placeholders = (message: string) => [...message.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort()
+
+describe('message catalogs', () => {
+  it.each(Object.entries(catalogs))('%s matches the keys and placeholders of en.json', (_, messages) => {
+    expect(Object.keys(messages).sort()).toEqual(Object.keys(en).sort())
+    for (const [key, message] of Object.entries(en)) {
+      expect(placeholders(messages[key] ?? ''), key).toEqual(placeholders(message))
+    }
+  })
+
+  it.each(FLAG_RULES)('words the $flag reason "$reason" the same in en.json as in flag-rules.ts', rule => {
+    expect(en[rule.message]).toBe(rule.reason)
+    expect(reasonMessage(rule.reason)).toBe(rule.message)
+  })
+
+  it('translates inferred flag reasons', () => {
+    expect(useTranslations('es')(reasonMessage('No creator recorded') as MessageKey)).toBe('No se registró el creador')
+    expect(reasonMessage('Set by a custom rule')).toBeNull()
+  })
+
+  it('lists the default locale first', () => {
+    expect(LOCALES[0]).toBe('en')
+    expect(LOCALES).toContain('es')
+  })
+})
+
+describe('useTranslations', () => {
+  it('fills in placeholders', () => {
+    expect(useTranslations('es')('nav.duplicates', { count: 3 })).toBe('Revisión de duplicados (3)')
+  })
+
+  it('falls back to English for unknown locales and to the key for unknown keys', () => {
+    expect(useTranslations('xx')('fallback.unknown')).toBe('Unknown')
+    expect(useTranslations('es')('missing.key' as MessageKey)).toBe('missing.key')
+  })
+})
+
+describe('locale paths', () => {
+  it('prefixes every locale but the default', () => {
+    expect(localePath('/objects/EI-0001/', 'en')).toBe('/objects/EI-0001/')
+    expect(localePath('/objects/EI-0001/', 'es')).toBe('/es/objects/EI-0001/')
+  })
+
+  it('strips the prefix again', () => {
+    expect(unlocalizedPath('/es/objects/EI-0001/')).toBe('/objects/EI-0001/')
+    expect(unlocalizedPath('/objects/EI-0001/')).toBe('/objects/EI-0001/')
+  })
+})
+
+describe('locale-aware formatting', () => {
+  it('keeps the curator wording in English and rebuilds it from structured values otherwise', () => {
+    const date = parseDate('c. 1950')
+    expect(formatItemDate(date, 'en')).toBe('c. 1950')
+    expect(formatItemDate(date, 'es')).not.toBe('c. 1950')
+    expect(formatItemDate(date, 'es')).toContain('1950')
+  })
+
+  it.each([
+    ['an ISO day', '1950-01-01', '1 de enero de 1950'],
+    ['an approximate ISO month', 'c. 2025-03', 'ca. marzo de 2025'],
+    ['an approximate ISO day', 'c. 1950-01-01', 'ca. 1 de enero de 1950'],
+    ['a range of ISO days', '1950-01-01 – 1950-03-02', '1 de enero de 1950–2 de marzo de 1950'],
+    ['a range of ISO months across years', '1950-01 – 1952-06', 'enero de 1950–junio de 1952'],
+  ])('formats %s from its structured values', (_, display, expected) => {
+    expect(formatItemDate(parseDate(display), 'es')).toBe(expected)
+  })
+
+  it('keeps the display of a day that is not on the calendar', () => {
+    expect(formatItemDate(parseDate('1950-13-45'), 'es')).toBe('1950-13-45')
+    expect(formatItemDate(parseDate('1950-02-30'), 'es')).toBe('1950-02-30')
+  })
+
+  it('uses the locale decimal separator for dimensions', () => {
+    const dimensions: ItemDimensions = {
+      display: 'H 22 in',
+      values: { height: 55.88 },
+      sourceUnit: 'in',
+      approximate: false,
+      qualifier: null,
+      descriptive: null,
+    }
+    expect(formatDimensions(dimensions, 'metric', 'en')).toContain('55.9 cm')
+    expect(formatDimensions(dimensions, 'metric', 'es')).toContain('55,9 cm')
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Streaming Export Tests
+ *
+ * Reading { meta, records } exports record by record, however the text is
+ * split into chunks, one record per chunk read at most, and generating the
+ * synthetic exports the benchmark builds from.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { readJsonStream } from '../src/lib/adapters/json-stream'
+import { jsonAdapter } from '../src/lib/adapters/json'
+import { validateExport } from '../src/lib/validate'
+import { syntheticRecords } from '../src/scripts/synthetic-export'
+import collection from '../src/data/collection.json'
+
+async function* chunked(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size)
+}
+
+const read = async (text: string, size = 7) => {
+  const records: unknown[] = []
+  const reader = readJsonStream(chunked(text, size))
+  for (let next = await reader.next(); ; next = await reader.next()) {
+    if (next.done) return { envelope: next.value, records }
+    records.push(next.value)
+  }
+}
+
+const sample = {
+  meta: { source: 'Test', exportedAt: '2026-01-01' },
+  records: [
+    { object_id: 'EI-T001', title: 'Chair, "LCW" [plywood] {1946}', tags: ['a', 'b'] },
+    { object_id: 'EI-T002', title: 'Escaped \\ backslash', related: [{ object_id: 'EI-T001' }] },
+    null,
+    'not a record',
+  ],
+}
+
+describe('readJsonStream', () => {
+  it.each([1, 7, 1000])('reads every record with %i-character chunks', async size => {
+    const { envelope, records } = await read(JSON.stringify(sample, null, 2), size)
+    expect(records).toEqual(sample.records)
+    expect(envelope).toEqual({ meta: sample.meta, records: [] })
+  })
+
+  it('keeps meta that comes after the records', async () => {
+    const { envelope, records } = await read('{"records":[{"object_id":"EI-T001"}],"meta":{"source":"Test"}}')
+    expect(records).toEqual([{ object_id: 'EI-T001' }])
+    expect(envelope).toEqual({ records: [], meta: { source: 'Test' } })
+  })
+
+  it('only streams the top-level records array', async () => {
+    const { envelope, records } = await read('{"meta":{"records":[1,2]},"records":[]}')
+    expect(records).toEqual([])
+    expect(envelope).toEqual({ meta: { records: [1, 2] }, records: [] })
+  })
+
+  it('leaves records that are not an array in the envelope', async () => {
+    expect(await read('{"meta":{},"records":"none"}')).toEqual({ envelope: { meta: {}, records: 'none' }, records: [] })
+  })
+
+  it('names the record that is not valid JSON', async () => {
+    await expect(read('{"records":[{"object_id":"EI-T001"},{"object_id":}]}')).rejects.toThrow(/^record 1: /)
+  })
+
+  it.each([
+    ['a trailing comma', '{"records":[{"object_id":"EI-T001"},]}', 'record 1: unexpected "]"'],
+    ['a doubled comma', '{"records":[{"object_id":"EI-T001"},,{"object_id":"EI-T002"}]}', 'record 1: unexpected ","'],
+    ['a leading comma', '{"records":[,{"object_id":"EI-T001"}]}', 'record 0: unexpected ","'],
+  ])('rejects %s in the records array, like JSON.parse', async (_, text, message) => {
+    expect(() => JSON.parse(text)).toThrow()
+    await expect(read(text)).rejects.toThrow(message)
+  })
+
+  it('rejects an export that ends early', async () => {
+    await expect(read('{"meta":{},"records":[{"object_id":"EI-T001"}')).rejects.toThrow('unexpected end of export')
+  })
+})
+
+describe('jsonAdapter', () => {
+  const source = { id: 'test', label: 'Test', format: 'json', path: 'test.json' } as const
+
+  it('parses the same export whole or streamed', async () => {
+    const text = JSON.stringify(collection)
+    const stream = jsonAdapter.parseStream?.(chunked(text, 4096), source)
+    const records: unknown[] = []
+    for await (const record of stream?.records ?? []) records.push(record)
+    expect({ ...stream?.envelope(), records }).toEqual(jsonAdapter.parse(text, source))
+  })
+
+  it('hands over each record before reading the next', async () => {
+    const text = JSON.stringify(sample)
+    let read = ''
+    async function* tracked() {
+      for await (const chunk of chunked(text, 1)) {
+        read += chunk
+        yield chunk
+      }
+    }
+    const stream = jsonAdapter.parseStream?.(tracked(), source)
+    for await (const record of stream?.records ?? []) {
+      expect(read.endsWith(`${JSON.stringify(record)},`)).toBe(true)
+      break
+    }
+    expect(() => stream?.envelope()).toThrow('has not been read to the end')
+  })
+})
+
+describe('syntheticRecords', () => {
+  const count = collection.records.length * 3
+  const records = [...syntheticRecords(count)]
+
+  it('gives every record its own id', () => {
+    expect(new Set(records.map(record => record.object_id)).size).toBe(count)
+  })
+
+  it('repeats the problems of the sample records in every copy', () => {
+    const problems = (data: unknown) => validateExport(data, 'mark').report.issues
+      .filter(issue => issue.index != null)
+      .map(issue => issue.reason)
+      .sort()
+    const perCopy = problems(collection)
+    expect(problems({ meta: collection.meta, records })).toEqual([...perCopy, ...perCopy, ...perCopy].sort())
+  })
+
+  it('is the same for the same count', () => {
+    expect([...syntheticRecords(count)]).toEqual(records)
+  })
+})
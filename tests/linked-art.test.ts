@@ -0,0 +1,92 @@
+/**
+ * Linked Art Export Tests
+ *
+ * Maps items built from the base fixture record to Linked Art documents:
+ * identifiers, production timespans and attributions, dimensions and parts.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { objectUri, toLinkedArt } from '../src/lib/linked-art'
+import { resolveRelations } from '../src/lib/relations'
+import { transformRecord } from '../src/lib/transform'
+import { linkedDataBaseUri } from '../src/config'
+import { baseRecord } from './fixtures/records'
+import type { Record as SampleRecord } from '../src/scripts/quicktype-generated'
+
+const item = (raw: Partial<SampleRecord> = {}) => transformRecord({ ...baseRecord, ...raw })
+
+describe('toLinkedArt', () => {
+  it('names and identifies the object with stable URIs', () => {
+    const document = toLinkedArt(item())
+    expect(document).toMatchObject({
+      '@context': 'https://linked.art/ns/v1/linked-art.json',
+      id: `${linkedDataBaseUri}object/EI-T001`,
+      type: 'HumanMadeObject',
+      _label: 'Test Chair',
+      classified_as: [{ type: 'Type', _label: 'Furniture' }],
+    })
+    expect(document.identified_by.map(identifier => [identifier.type, identifier.content, identifier.classified_as?.[0]._label])).toEqual([
+      ['Name', 'Test Chair', 'Primary Name'],
+      ['Identifier', 'EI-T001', 'System-Assigned Number'],
+      ['Identifier', '2020.1.1', 'Accession Number'],
+    ])
+  })
+
+  it.each([
+    ['a year', 1950, { begin_of_the_begin: '1950-01-01T00:00:00Z', end_of_the_end: '1950-12-31T23:59:59Z' }],
+    ['an approximate decade', 'c. 1950s', { begin_of_the_begin: '1950-01-01T00:00:00Z', end_of_the_end: '1959-12-31T23:59:59Z' }],
+    ['an early year', '15th century', { begin_of_the_begin: '1400-01-01T00:00:00Z', end_of_the_end: '1499-12-31T23:59:59Z' }],
+    ['a date without bounds', 'Carved in spring', {}],
+  ])('spans the years of %s', (_, date, bounds) => {
+    const display = String(date)
+    expect(toLinkedArt(item({ date })).produced_by?.timespan).toEqual({
+      type: 'TimeSpan',
+      identified_by: [{ type: 'Name', content: display }],
+      ...bounds,
+    })
+  })
+
+  it('leaves out production when neither date nor creator is known', () => {
+    expect(toLinkedArt(item({ date: null, creator: null })).produced_by).toBeUndefined()
+  })
+
+  it('records certain creators as carried_out_by and uncertain ones as "possibly"', () => {
+    const production = toLinkedArt(item({ creator: ['Charles Eames', 'Herman Miller?'] })).produced_by
+    expect(production?.carried_out_by).toEqual([
+      { id: `${linkedDataBaseUri}person/charles-eames`, type: 'Person', _label: 'Charles Eames' },
+    ])
+    expect(production?.assigned_by).toEqual([{
+      type: 'AttributeAssignment',
+      classified_as: [{ id: 'http://vocab.getty.edu/aat/300435722', type: 'Type', _label: 'Possibly' }],
+      assigned_property: 'carried_out_by',
+      assigned: [{ id: `${linkedDataBaseUri}group/herman-miller`, type: 'Group', _label: 'Herman Miller' }],
+    }])
+  })
+
+  it('gives each measured axis a dimension in centimeters', () => {
+    const dimensions = toLinkedArt(item({ dimensions: { display: '36 in diameter', diameter: '36 in' } })).dimension
+    expect(dimensions).toEqual([{
+      type: 'Dimension',
+      value: 91.4,
+      unit: { id: 'http://vocab.getty.edu/aat/300379098', type: 'MeasurementUnit', _label: 'centimeters' },
+      classified_as: [{ id: 'http://vocab.getty.edu/aat/300055624', type: 'Type', _label: 'Diameter' }],
+    }])
+  })
+
+  it('keeps the dimension display as a statement when nothing was measured', () => {
+    const document = toLinkedArt(item({ dimensions: { display: 'small' } }))
+    expect(document.dimension).toBeUndefined()
+    expect(document.referred_to_by).toContainEqual(expect.objectContaining({ content: 'small' }))
+  })
+
+  it('splits materials and links the objects it is part of', () => {
+    const { items } = resolveRelations([
+      item({ materials: ['wood', 'metal'], related: [{ type: 'part-of', object_id: 'EI-T002' }] }),
+      item({ object_id: 'EI-T002', title: 'Test Set' }),
+    ])
+    const document = toLinkedArt(items[0])
+    expect(document.made_of).toEqual([{ type: 'Material', _label: 'wood' }, { type: 'Material', _label: 'metal' }])
+    expect(document.part_of).toEqual([{ id: objectUri('EI-T002'), type: 'HumanMadeObject', _label: 'Test Set' }])
+    expect(toLinkedArt(items[1]).part_of).toBeUndefined()
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Storage Location Tests
+ *
+ * Reading inventory locations, grouping items into the location tree, and
+ * building pick lists. How locations come out of transformRecord is covered
+ * by the location fixtures in fixtures/records.ts.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { buildLocationTree, buildPickList, formatLocation, lookupLocation, parsePickListIds } from '../src/lib/locations'
+import { transformRecord } from '../src/lib/transform'
+import { baseRecord } from './fixtures/records'
+import type { PickListEntry, StorageLocation } from '../src/types/location'
+
+const at = (site: string | null, room: string | null, shelf: string | null, code: string | null = null): StorageLocation =>
+  ({ site, room, shelf, code })
+
+describe('lookupLocation', () => {
+  it.each([
+    ['"Archive > Vault A > A-01"', 'Archive > Vault A > A-01', at('Archive', 'Vault A', 'A-01')],
+    ['"Offsite Storage / Bay 2 / Pallet 9"', 'Offsite Storage / Bay 2 / Pallet 9', at('Offsite Storage', 'Bay 2', 'Pallet 9')],
+    ['site and shelf only', 'Archive › F-12', at('Archive', null, 'F-12')],
+    ['an ID as text', ' 14 ', at('Archive', 'Flat Files', 'Drawer 3', '14')],
+    ['an unknown code', 'ARC-7', at(null, null, null, 'ARC-7')],
+  ])('reads %s', (_, value, expected) => {
+    expect(lookupLocation(value)).toEqual(expected)
+  })
+})
+
+describe('formatLocation', () => {
+  it('joins the recorded levels', () => {
+    expect(formatLocation(at('Archive', null, 'F-12'))).toBe('Archive › F-12')
+  })
+
+  it('falls back to the code for unresolved locations', () => {
+    expect(formatLocation(at(null, null, null, '99'))).toBe('99')
+    expect(formatLocation(null)).toBe('')
+  })
+})
+
+describe('buildLocationTree', () => {
+  const items = [
+    { object_id: 'EI-T001', inventory_location: 21 },
+    { object_id: 'EI-T002', inventory_location: 20 },
+    { object_id: 'EI-T003', inventory_location: 12 },
+    { object_id: 'EI-T004', location: { site: 'Archive', shelf: 'Z-1' } },
+    { object_id: 'EI-T005', inventory_location: 30 },
+    { object_id: 'EI-T006', inventory_location: 99 },
+    { object_id: 'EI-T007' },
+  ].map(record => transformRecord({ ...baseRecord, ...record }))
+
+  const tree = buildLocationTree(items)
+
+  it('nests sites, rooms and shelves in natural order with counts', () => {
+    expect(tree.sites.map(site => [site.name, site.count])).toEqual([['Archive', 2], ['Gallery', 1], ['Offsite Storage', 2]])
+
+    const [bay] = tree.sites[2].children
+    expect(bay.path).toEqual(['Offsite Storage', 'Bay 1'])
+    expect(bay.children.map(shelf => [shelf.name, shelf.itemIds])).toEqual([['Rack 4', ['EI-T002']], ['Rack 5', ['EI-T001']]])
+  })
+
+  it('puts a shelf with no room under an unrecorded room, after the named rooms', () => {
+    expect(tree.sites[0].children.map(room => room.name)).toEqual(['Vault B', null])
+    expect(tree.sites[0].children[1].children[0].itemIds).toEqual(['EI-T004'])
+  })
+
+  it('keeps items at the deepest level their location names', () => {
+    expect(tree.sites[1].children[0]).toMatchObject({ name: 'Main Hall', itemIds: ['EI-T005'], children: [] })
+  })
+
+  it('lists unresolved codes and unlocated items separately', () => {
+    expect(tree.unresolved).toEqual([{ code: '99', itemIds: ['EI-T006'] }])
+    expect(tree.unlocated).toEqual(['EI-T007'])
+  })
+})
+
+describe('buildPickList', () => {
+  const entry = (id: string, accessionNumber: string | null, location: StorageLocation | null): PickListEntry =>
+    ({ id, accessionNumber, title: `Object ${id}`, path: `/objects/${id}/`, location })
+
+  const entries = [
+    entry('EI-0001', '2020.1.10', at('Offsite Storage', 'Bay 1', 'Rack 4', '20')),
+    entry('EI-0002', '2020.1.9', at('Offsite Storage', 'Bay 1', 'Rack 4', '20')),
+    entry('EI-0003', '1999.2.1', at('Archive', 'Vault B', 'F-12', '12')),
+    entry('EI-0004', null, at(null, null, null, '99')),
+    entry('EI-0005', '2001.5.5', null),
+  ]
+
+  it('groups the requested objects by location, in location then accession order', () => {
+    const pickList = buildPickList(entries, ['EI-0001', '2020.1.9', 'ei-0003'])
+
+    expect(pickList.notFound).toEqual([])
+    expect(pickList.groups.map(group => [group.label, group.entries.map(picked => picked.id)])).toEqual([
+      ['Archive › Vault B › F-12', ['EI-0003']],
+      ['Offsite Storage › Bay 1 › Rack 4', ['EI-0002', 'EI-0001']],
+    ])
+  })
+
+  it('lists objects with no usable location last', () => {
+    const pickList = buildPickList(entries, ['EI-0005', 'EI-0004', 'EI-0003'])
+    expect(pickList.groups.map(group => group.label)).toEqual(['Archive › Vault B › F-12', 'No location recorded'])
+    expect(pickList.groups[1].entries.map(picked => picked.id)).toEqual(['EI-0005', 'EI-0004'])
+  })
+
+  it('lists each object once and reports values that match nothing', () => {
+    const pickList = buildPickList(entries, ['EI-0003', '1999.2.1', 'EI-9999', 'EI-9999'])
+    expect(pickList.groups.flatMap(group => group.entries)).toHaveLength(1)
+    expect(pickList.notFound).toEqual(['EI-9999'])
+  })
+})
+
+describe('parsePickListIds', () => {
+  it('splits on commas, semicolons and whitespace', () => {
+    expect(parsePickListIds(' EI-0001, EI-0017;\n1993.1.3\n\n')).toEqual(['EI-0001', 'EI-0017', '1993.1.3'])
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Property-Based Normalizer Tests
+ *
+ * The export is untrusted, so no input may make the pipeline throw. These
+ * feed arbitrary JSON into every raw field (and into the parsers directly)
+ * and check that a well-formed Item always comes out.
+ */
+
+import { describe, expect, it } from 'vitest'
+import fc from 'fast-check'
+import { transformRecord } from '../src/lib/transform'
+import { createExportValidator, validateExport } from '../src/lib/validate'
+import { parseDate } from '../src/lib/dates'
+import { parseDimensionText } from '../src/lib/dimensions'
+import { parseCreator } from '../src/lib/creators'
+import type { Record as SampleRecord } from '../src/scripts/quicktype-generated'
+import { baseRecord } from './fixtures/records'
+
+// Every field the transform reads, including the optional ones
+const RAW_FIELDS = [
+  'accession_number', 'title', 'creator', 'date', 'object_type', 'department', 'materials', 'dimensions',
+  'tags', 'credit_line', 'notes', 'provenance', 'external_ids', 'description', 'flags', 'condition',
+  'keywords', 'related', 'geo', 'inventory_location', 'rights', 'transcription', 'series', 'location',
+  'variants', 'edition', 'status',
+] as const
+
+// A raw record whose fields are any JSON at all
+const arbitraryRecord = fc.record(
+  Object.fromEntries(RAW_FIELDS.map(field => [field, fc.jsonValue()])),
+  { requiredKeys: [] },
+).map(fields => ({ object_id: 'EI-P001', ...fields }) as unknown as SampleRecord)
+
+/**
+ * Checks the invariants every Item keeps, whatever went in
+ * (object_type and department pass through as-is, so only the normalized fields are checked)
+ */
+function expectWellFormed(record: SampleRecord): void {
+  const item = transformRecord(record)
+  expect(typeof item.title).toBe('string')
+  expect(Array.isArray(item.creators)).toBe(true)
+  expect(Array.isArray(item.related)).toBe(true)
+  for (const terms of [item.keywords, item.tags]) {
+    expect(terms === null || terms.every(term => typeof term === 'string' && term !== '')).toBe(true)
+  }
+}
+
+describe('normalizers on arbitrary JSON', () => {
+  it('never throw when any single field holds arbitrary JSON', () => {
+    fc.assert(fc.property(fc.constantFrom(...RAW_FIELDS), fc.jsonValue(), (field, value) => {
+      expectWellFormed({ ...baseRecord, [field]: value } as unknown as SampleRecord)
+    }))
+  })
+
+  it('never throw when every field holds arbitrary JSON', () => {
+    fc.assert(fc.property(arbitraryRecord, record => {
+      expectWellFormed(record)
+    }))
+  })
+
+  it('never throw on arbitrary strings in the free-text parsers', () => {
+    fc.assert(fc.property(fc.string(), fc.option(fc.constantFrom('in', 'cm', 'mm', 'ft', 'm')), (text, unit) => {
+      parseDate(text)
+      parseDimensionText(text, unit)
+      parseCreator(text)
+    }))
+  })
+})
+
+describe('validateExport on arbitrary JSON', () => {
+  const arbitraryExport = fc.oneof(
+    fc.jsonValue(),
+    fc.record({ meta: fc.jsonValue(), records: fc.array(fc.oneof(fc.jsonValue(), arbitraryRecord)) }),
+  )
+
+  it('never throws, and everything it lets through transforms', () => {
+    fc.assert(fc.property(arbitraryExport, fc.constantFrom('skip', 'mark' as const), (data, strictness) => {
+      const validation = validateExport(data, strictness)
+      validation.records.forEach(expectWellFormed)
+    }))
+  })
+
+  it('gives the same result record by record as for the whole export, like a streamed source', () => {
+    const arbitraryRecords = fc.record({ meta: fc.jsonValue(), records: fc.array(fc.oneof(fc.jsonValue(), arbitraryRecord)) })
+    fc.assert(fc.property(arbitraryRecords, fc.constantFrom('skip', 'mark' as const), (data, strictness) => {
+      const validator = createExportValidator(strictness)
+      const records = data.records.flatMap(record => validator.check(record)?.record ?? [])
+      expect({ ...validator.finish({ meta: data.meta, records: [] }), records }).toEqual(validateExport(data, strictness))
+    }))
+  })
+})
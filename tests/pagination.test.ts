@@ -0,0 +1,46 @@
+/**
+ * Grid Pagination Tests
+ *
+ * Page counts, page URLs and the window of page links around the current page.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { gridPageParam, gridPagePath, pageCount, pageWindow } from '../src/lib/pagination'
+
+describe('pageCount', () => {
+  it.each([
+    [0, 1],
+    [48, 1],
+    [49, 2],
+    [50000, 1042],
+  ])('splits %i items into %i pages of 48', (total, pages) => {
+    expect(pageCount(total, 48)).toBe(pages)
+  })
+})
+
+describe('gridPagePath', () => {
+  it('puts page 1 at the root and later pages under /page/', () => {
+    expect(gridPagePath(1)).toBe('/')
+    expect(gridPagePath(3)).toBe('/page/3/')
+    expect(gridPagePath(3, 'es')).toBe('/es/page/3/')
+  })
+
+  it('matches the route param', () => {
+    expect(gridPageParam(1)).toBeUndefined()
+    expect(gridPageParam(3)).toBe('page/3')
+  })
+})
+
+describe('pageWindow', () => {
+  it.each([
+    [1, 1, [1]],
+    [1, 5, [1, 2, 3, 4, 5]],
+    [1, 20, [1, 2, 3, null, 20]],
+    [6, 20, [1, null, 4, 5, 6, 7, 8, null, 20]],
+    [4, 20, [1, 2, 3, 4, 5, 6, null, 20]],
+    [5, 20, [1, 2, 3, 4, 5, 6, 7, null, 20]],
+    [20, 20, [1, null, 18, 19, 20]],
+  ])('links around page %i of %i', (current, count, expected) => {
+    expect(pageWindow(current, count)).toEqual(expected)
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Provenance Tests
+ *
+ * Reading single provenance entries in the shapes parseProvenanceEvent
+ * accepts. How whole histories come out of transformRecord is covered by the
+ * provenance fixtures in fixtures/records.ts.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { parseProvenanceEvent } from '../src/lib/provenance'
+
+describe('parseProvenanceEvent', () => {
+  it('reads synonym keys in order of preference', () => {
+    expect(parseProvenanceEvent({ holder: 'Vitra', name: 'Vitra AG', period: '1957–1990', mode: 'license', citation: 'Agreement, 1957' })).toEqual({
+      owner: 'Vitra AG',
+      date: { display: '1957–1990', earliest: 1957, latest: 1990, precision: 'year', approximate: false },
+      method: 'license',
+      sourceNote: 'Agreement, 1957',
+    })
+  })
+
+  it('joins separate start and end dates into one range', () => {
+    expect(parseProvenanceEvent({ owner: 'Herman Miller', start: 1950, end: 1962 })?.date).toEqual({
+      display: '1950–1962', earliest: 1950, latest: 1962, precision: 'year', approximate: false,
+    })
+  })
+
+  it('leaves the start of a range open when only the end is known', () => {
+    expect(parseProvenanceEvent({ owner: 'Eames Office', until: 'c. 1978' })?.date).toEqual({
+      display: '–c. 1978', earliest: null, latest: 1978, precision: 'year', approximate: true,
+    })
+  })
+
+  it('splits free text into owner, date, method and source note', () => {
+    expect(parseProvenanceEvent('Eames Office; gift; 1978; Eames Office inventory; box 12')).toEqual({
+      owner: 'Eames Office',
+      date: { display: '1978', earliest: 1978, latest: 1978, precision: 'year', approximate: false },
+      method: 'gift',
+      sourceNote: 'Eames Office inventory, box 12',
+    })
+  })
+
+  it.each([
+    ['"unknown"', 'unknown'],
+    ['an empty object', {}],
+    ['an object of unknowns', { owner: 'unknown', date: 'unknown' }],
+    ['a number', 1950],
+    ['an array', ['Eames Office']],
+    ['null', null],
+  ])('returns null for %s', (_, entry) => {
+    expect(parseProvenanceEvent(entry)).toBeNull()
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Publication Policy Tests
+ *
+ * Decides single items built from the base fixture record against the
+ * default policy and against small custom policies.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { PUBLICATION_POLICY, decidePublication, publicItem, publishEntries, rightsStatement } from '../src/lib/publication'
+import { createEntries, transformRecord } from '../src/lib/transform'
+import { baseRecord } from './fixtures/records'
+import type { Record as SampleRecord } from '../src/scripts/quicktype-generated'
+import type { PublicationPolicy } from '../src/types/publication'
+
+const item = (raw: Partial<SampleRecord> = {}) => transformRecord({ ...baseRecord, ...raw })
+
+describe('decidePublication', () => {
+  it('publishes a complete record with nothing to redact', () => {
+    expect(decidePublication(item(), false)).toEqual({
+      publish: true,
+      reasons: [],
+      redactedFields: [],
+      hiddenFlags: [],
+      rightsStatement: 'Copyright Not Evaluated',
+    })
+  })
+
+  it.each([
+    ['a withheld status', { status: 'Draft' }, 'status is "Draft"'],
+    ['a withheld flag set by a curator', { flags: { needs_review: true } }, 'flagged needsReview by a curator'],
+  ])('withholds a record with %s', (_, raw, reason) => {
+    const decision = decidePublication(item(raw), false)
+    expect(decision.publish).toBe(false)
+    expect(decision.reasons).toEqual([reason])
+  })
+
+  it('does not withhold for an inferred flag', () => {
+    const inferred = item({ date: 'sometime' })
+    expect(inferred.flagOrigins?.needsReview?.source).toBe('inferred')
+    expect(decidePublication(inferred, false).publish).toBe(true)
+  })
+
+  it('withholds invalid records only when the policy says so', () => {
+    expect(decidePublication(item(), true).reasons).toEqual(['failed validation'])
+    expect(decidePublication(item(), true, { ...PUBLICATION_POLICY, withholdInvalid: false }).publish).toBe(true)
+  })
+
+  it.each([
+    [{ rights: '© Eames Office LLC' }, 'In Copyright'],
+    [{ rights: 'Public domain' }, 'No Known Copyright'],
+    [{ rights: { status: 'unknown', notes: '' } }, 'Copyright Not Evaluated'],
+  ])('states the rights of %o as %s', (raw, statement) => {
+    expect(decidePublication(item(raw), false).rightsStatement).toBe(statement)
+  })
+
+  it('lists the redacted fields and internal flags the item has', () => {
+    const decision = decidePublication(item({ condition: 'Scratched', inventory_location: 12, flags: { possible_duplicate: true, prototype: true } }), false)
+    expect(decision.redactedFields).toEqual(['condition', 'location'])
+    expect(decision.hiddenFlags).toEqual(['possibleDuplicate'])
+  })
+})
+
+describe('rightsStatement', () => {
+  it.each([
+    ['© Eames Office LLC', 'In Copyright'],
+    ['© Eames Office LLC. All rights reserved.', 'In Copyright'],
+    ['Public Domain', 'No Known Copyright'],
+    ['Public domain', 'No Known Copyright'],
+    ['unknown', 'Copyright Not Evaluated'],
+    [null, 'Copyright Not Evaluated'],
+  ])('states %s as %s', (rights, statement) => {
+    expect(rightsStatement(rights)).toBe(statement)
+  })
+
+  it('uses the first matching rule', () => {
+    const policy: PublicationPolicy = {
+      ...PUBLICATION_POLICY,
+      rightsStatements: [{ label: 'Licensed', match: ['licensed'] }, { label: 'In Copyright', match: ['copyright'] }],
+    }
+    expect(rightsStatement('Copyright Eames Office, licensed for reuse', policy)).toBe('Licensed')
+  })
+})
+
+describe('publicItem', () => {
+  it('clears redacted fields, drops hidden flags and states the rights', () => {
+    const source = item({ condition: 'Scratched', rights: '© Eames Office LLC', flags: { possible_duplicate: true, prototype: true } })
+    const published = publicItem(source, decidePublication(source, false))
+
+    expect(published.condition).toBeNull()
+    expect(published.flags).toEqual({ prototype: true })
+    expect(published.flagOrigins).toEqual({ prototype: { source: 'export', reason: null } })
+    expect(published.rights).toBe('In Copyright')
+    expect(source.condition).toBe('Scratched')
+  })
+})
+
+describe('publishEntries', () => {
+  it('leaves out withheld records and links to them', () => {
+    const entries = createEntries([
+      { ...baseRecord, related: [{ type: 'paired-with', object_id: 'EI-T002' }] },
+      { ...baseRecord, object_id: 'EI-T002', status: 'draft' },
+    ], null, 'test')
+    const { entries: published, withheld } = publishEntries(entries, new Set())
+
+    expect(published.map(entry => entry.item.id)).toEqual(['EI-T001'])
+    expect(published[0].item.related).toEqual([])
+    expect(withheld).toEqual([{ id: 'EI-T002', title: 'Test Chair', reasons: ['status is "draft"'] }])
+  })
+})
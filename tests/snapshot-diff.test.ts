@@ -0,0 +1,74 @@
+/**
+ * Snapshot Diff Tests
+ *
+ * Diffing two small exports built from the base fixture record: what counts
+ * as added, removed or changed, and that formatting-only differences in the
+ * source are not reported.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { diffSnapshots, formatSnapshotDiff } from '../src/lib/snapshot-diff'
+import { baseRecord } from './fixtures/records'
+import type { Record as SampleRecord } from '../src/scripts/quicktype-generated'
+
+const snapshot = (...records: Partial<SampleRecord>[]) => ({
+  meta: { source: 'Test export', exportedAt: '2026-01-01T00:00:00Z' },
+  records: records.map(record => ({ ...baseRecord, ...record })),
+})
+
+describe('diffSnapshots', () => {
+  it.each([
+    ['creator', { creator: 'Charles & Ray Eames' }, { creator: 'Charles and Ray Eames' }],
+    ['creator as string and array', { creator: 'Charles Eames' }, { creator: ['Charles Eames'] }],
+    ['date display', { date: { display: '1950', earliest: 1950, latest: 1950 } }, { date: 1950 }],
+    ['dimensions display', { dimensions: { display: 'H 10 in', h: { value: 10, unit: 'in' } } }, { dimensions: { display: 'H 10in', h: '10 in' } }],
+    ['materials separator', { materials: ['wood', 'metal'] }, { materials: 'wood; metal' }],
+  ])('does not report a %s that was only re-formatted', (_, before, after) => {
+    const diff = diffSnapshots(snapshot(before), snapshot(after))
+    expect(diff.changed).toEqual([])
+    expect(diff.unchanged).toBe(1)
+  })
+
+  it('lists added and removed objects in object_id order', () => {
+    const diff = diffSnapshots(
+      snapshot({ object_id: 'EI-T003' }, { object_id: 'EI-T001' }),
+      snapshot({ object_id: 'EI-T002' }, { object_id: 'EI-T001' }, { object_id: 'EI-T000' }),
+    )
+    expect(diff.added.map(item => item.id)).toEqual(['EI-T000', 'EI-T002'])
+    expect(diff.removed.map(item => item.id)).toEqual(['EI-T003'])
+    expect(diff.unchanged).toBe(1)
+  })
+
+  it('reports changed fields by path', () => {
+    const diff = diffSnapshots(
+      snapshot({ title: 'Test Chair', date: 'c. 1950', flags: { prototype: true } }),
+      snapshot({ title: 'Lounge Chair', date: '1952', creator: ['Charles Eames', 'Ray Eames'] }),
+    )
+    expect(diff.changed).toEqual([{
+      objectId: 'EI-T001',
+      title: 'Lounge Chair',
+      changes: [
+        { path: 'title', before: 'Test Chair', after: 'Lounge Chair' },
+        { path: 'creators', before: ['Charles Eames'], after: ['Charles Eames', 'Ray Eames'] },
+        { path: 'date.earliest', before: 1950, after: 1952 },
+        { path: 'date.latest', before: 1950, after: 1952 },
+        { path: 'date.approximate', before: true, after: false },
+        { path: 'flags.prototype', before: true, after: undefined },
+      ],
+    }])
+  })
+
+  it('keeps the date display when nothing could be parsed from it', () => {
+    const diff = diffSnapshots(snapshot({ date: 'sometime' }), snapshot({ date: 'some time' }))
+    expect(diff.changed[0].changes).toEqual([{ path: 'date.display', before: 'sometime', after: 'some time' }])
+  })
+})
+
+describe('formatSnapshotDiff', () => {
+  it('renders counts and a table per changed object', () => {
+    const report = formatSnapshotDiff(diffSnapshots(snapshot({ title: 'A | B' }), snapshot({ title: 'C' }, { object_id: 'EI-T002' })))
+    expect(report).toContain('**1 added · 0 removed · 1 changed · 0 unchanged**')
+    expect(report).toContain('- EI-T002 - Test Chair')
+    expect(report).toContain('| `title` | A \\| B | C |')
+  })
+})
@@ -0,0 +1,30 @@
+/**
+ * Transform Tests
+ *
+ * Runs every fixture in fixtures/records.ts through transformRecord and
+ * checks the Item fields its raw shape affects.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { transformRecord } from '../src/lib/transform'
+import { FIXTURES, baseRecord, fixtureRecord } from './fixtures/records'
+import type { Item } from '../src/types/item'
+
+describe('transformRecord', () => {
+  it('passes a complete record through without fallbacks or flags', () => {
+    const item = transformRecord(baseRecord)
+    expect(item.title).toBe('Test Chair')
+    expect(item.flags).toBeNull()
+    expect(item.flagOrigins).toBeNull()
+  })
+
+  for (const [field, fixtures] of Object.entries(FIXTURES)) {
+    describe(field, () => {
+      it.each(fixtures)('$shape', fixture => {
+        const item = transformRecord(fixtureRecord(fixture))
+        const actual = Object.fromEntries(Object.keys(fixture.expected).map(key => [key, item[key as keyof Item]]))
+        expect(actual).toEqual(fixture.expected)
+      })
+    })
+  }
+})